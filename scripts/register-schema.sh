@@ -5,7 +5,7 @@
 # - swarmHash: Hash of sorted agent IDs
 # - timestamp: When verification was done
 # - score: Overall score 0-100
-# - verdict: 0=fake, 1=suspicious, 2=genuine
+# - verdict: 0=fake, 1=suspicious, 2=genuine, 3=insufficient data
 # - agentCount: Number of agents in swarm
 # - evidenceUri: IPFS link to full verification data
 
@@ -9,10 +9,18 @@
  *   bun run cli.ts demo
  */
 
-import type { Agent } from './types';
+import type { Agent, SwarmVerification } from './types';
 import { generateChallenge } from './services/challenger';
 import { dispatchChallenge } from './services/dispatcher';
-import { analyzeSwarm, printVerificationSummary } from './services/analyzer';
+import { analyzeSession, analyzeSwarm, printVerificationSummary } from './services/analyzer';
+import { runSession, MAX_ROUNDS, MAX_WINDOW_MS } from './services/session';
+import {
+  escalate,
+  DEFAULT_ESCALATION_BUDGET,
+  MAX_ESCALATION_BUDGET,
+  type VerificationPlan,
+} from './services/escalation';
+import { resolveScoring } from './services/scoring';
 import { SwarmChallengeClient } from './services/contract-client';
 
 const args = process.argv.slice(2);
@@ -48,12 +56,57 @@ async function selfTest() {
   printVerificationSummary(verification);
 }
 
-async function verifyEndpoints(endpoints: string[]) {
+/**
+ * Read a `--name=value` flag
+ */
+function getFlag(flags: string[], name: string): string | undefined {
+  return flags.find(f => f.startsWith(`--${name}=`))?.slice(name.length + 3);
+}
+
+/**
+ * Read a numeric `--name=value` flag, exiting with an error when it isn't a
+ * number from `min` to `max` (an integer, unless `integer` is false)
+ */
+function getNumberFlag(
+  flags: string[],
+  name: string,
+  fallback: number,
+  min: number,
+  max: number,
+  integer: boolean = true
+): number {
+  const raw = getFlag(flags, name);
+  if (raw === undefined) return fallback;
+  const value = raw.trim() === '' ? NaN : Number(raw);
+  if ((integer ? !Number.isInteger(value) : !Number.isFinite(value)) || value < min || value > max) {
+    console.error(`Error: --${name} must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function verifyEndpoints(params: string[]) {
+  const flags = params.filter(p => p.startsWith('--'));
+  const endpoints = params.filter(p => !p.startsWith('--'));
+  const rounds = getNumberFlag(flags, 'rounds', 1, 1, MAX_ROUNDS);
+  const windowSec = getFlag(flags, 'window') === undefined
+    ? undefined
+    : getNumberFlag(flags, 'window', 0, 0, MAX_WINDOW_MS / 1000, false);
+  const budget = getNumberFlag(flags, 'escalations', DEFAULT_ESCALATION_BUDGET, 0, MAX_ESCALATION_BUDGET);
+  const scoring = { profile: getFlag(flags, 'profile') };
+  
   if (endpoints.length < 2) {
     console.error('Error: Need at least 2 endpoints for swarm verification');
     process.exit(1);
   }
   
+  try {
+    resolveScoring(scoring);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  
   console.log('🦞 Proof of Swarm - Verify Endpoints\n');
   
   const agents: Agent[] = endpoints.map((endpoint, i) => ({
@@ -66,23 +119,45 @@ async function verifyEndpoints(endpoints: string[]) {
   agents.forEach(a => console.log(`  ${a.name}: ${a.endpoint}`));
   console.log('');
   
-  const challenge = generateChallenge('parallel', agents.map(a => a.id));
-  console.log(`Challenge: "${challenge.prompt}"\n`);
+  // With a window, ask one question at random times and score drift
+  const plan: VerificationPlan = {
+    challengeType: rounds > 1 && windowSec !== undefined ? 'consistency' : 'parallel',
+    challengeOptions: {},
+    rounds,
+  };
+  let verification: SwarmVerification;
   
-  const result = await dispatchChallenge(agents, challenge);
-  const verification = analyzeSwarm(agents, challenge, result.responses);
-  
-  // Show responses
-  console.log('\nResponses:');
-  for (const r of result.responses) {
-    const agent = agents.find(a => a.id === r.agentId);
-    if (r.error) {
-      console.log(`  ❌ ${agent?.name}: ${r.error}`);
-    } else {
-      console.log(`  ✅ ${agent?.name}: "${r.response.slice(0, 40)}..." (${r.latencyMs}ms)`);
+  if (rounds > 1) {
+    const session = await runSession(agents, {
+      rounds,
+      challengeType: plan.challengeType,
+      windowMs: windowSec !== undefined ? windowSec * 1000 : undefined,
+    });
+    verification = analyzeSession(agents, session.rounds, { calibration: session.calibration, scoring });
+  } else {
+    const challenge = generateChallenge('parallel', agents.map(a => a.id));
+    console.log(`Challenge: "${challenge.prompt}"\n`);
+    
+    const result = await dispatchChallenge(agents, challenge);
+    verification = analyzeSwarm(agents, challenge, result.responses, {
+      calibration: result.calibration,
+      scoring,
+    });
+    
+    // Show responses
+    console.log('\nResponses:');
+    for (const r of result.responses) {
+      const agent = agents.find(a => a.id === r.agentId);
+      if (r.error) {
+        console.log(`  ❌ ${agent?.name}: ${r.error}`);
+      } else {
+        console.log(`  ✅ ${agent?.name}: "${r.response.slice(0, 40)}..." (${r.latencyMs}ms)`);
+      }
     }
   }
   
+  // Borderline verdicts get harder challenges, up to the budget
+  verification = await escalate(agents, verification, plan, { budget, scoring });
   printVerificationSummary(verification);
 }
 
@@ -92,12 +167,18 @@ function showHelp() {
 Usage:
   bun run src/cli.ts self-test           Run self-verification test
   bun run src/cli.ts verify <urls...>    Verify agent endpoints
+    --rounds=N                           Run N rounds and score the latency distributions
+    --window=S                           Ask the rounds at random times over S seconds, scoring drift
+    --escalations=N                      Extra stages for borderline verdicts (default 2, 0 = off)
+    --profile=NAME                       Scoring profile: default, strict or slow-backends
   bun run src/cli.ts challenge           Test on-chain commit-reveal (Sepolia)
   bun run src/cli.ts help                Show this help
 
 Examples:
   bun run src/cli.ts self-test
   bun run src/cli.ts verify http://agent1.example.com http://agent2.example.com
+  bun run src/cli.ts verify --rounds=10 http://agent1.example.com http://agent2.example.com
+  bun run src/cli.ts verify --rounds=8 --window=600 http://agent1.example.com http://agent2.example.com
   WALLET_PASSWORD=... bun run src/cli.ts challenge
 `);
 }
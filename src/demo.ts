@@ -15,7 +15,7 @@ function simulateAIResponse(prompt: string, agentIndex: number): { response: str
   // Consistent responses based on prompt
   const responses: Record<string, string> = {
     'In exactly 3 words, describe the color blue.': 'Calm, cool, vast',
-    'Complete this sequence: 2, 4, 8, 16, __': '32',
+    'Complete this sequence: 2, 4, 8, 16, __. Reply with just the number.': '32',
     'What is 7 * 13? Reply with just the number.': '91',
     'Name one element from the periodic table.': 'Hydrogen',
     "What comes after 'Hello' in a greeting?": 'World',
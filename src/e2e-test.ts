@@ -6,13 +6,40 @@
  */
 
 import { spawn, type Subprocess } from 'bun';
-import type { Agent } from './types';
+import type { Agent, TransportKind } from './types';
 import { generateChallenge } from './services/challenger';
 import { dispatchChallenge } from './services/dispatcher';
+import { handleCallback } from './services/callbacks';
 import { analyzeSwarm, printVerificationSummary } from './services/analyzer';
 
 const NUM_AGENTS = 5;
 const BASE_PORT = 3510;
+const SVP_TYPE = process.argv.includes('--stream') ? 'stream'
+  : process.argv.includes('--batch') ? 'batch'
+  : 'text';
+// Every agent gets a different segment of one task
+const CHALLENGE_TYPE = process.argv.includes('--distributed') ? 'distributed' : 'parallel';
+// Every answer must be derived from the agent's own nonce
+const NONCE_BOUND = process.argv.includes('--nonce-bound');
+// Agents commit to a hash of their answer, and reveal once every commit is in
+const COMMIT_REVEAL = process.argv.includes('--commit-reveal');
+// Prompts go out sealed; one key release starts every agent's clock
+const TIME_LOCK = process.argv.includes('--time-lock');
+// Agents acknowledge with 202 and POST answers back to a local callback route
+const CALLBACK = process.argv.includes('--callback');
+const CALLBACK_PORT = BASE_PORT - 1;
+// --transport=a2a|websocket|mcp, or 'mixed' to cycle through all of them
+const TRANSPORT = process.argv.find(a => a.startsWith('--transport='))?.split('=')[1] ?? 'http';
+const ALL_TRANSPORTS: TransportKind[] = ['http', 'a2a', 'websocket', 'mcp'];
+
+function transportEndpoint(transport: TransportKind, port: number): string {
+  switch (transport) {
+    case 'a2a': return `http://localhost:${port}/a2a`;
+    case 'mcp': return `http://localhost:${port}/mcp`;
+    case 'websocket': return `ws://localhost:${port}/ws`;
+    default: return `http://localhost:${port}`;
+  }
+}
 
 async function sleep(ms: number): Promise<void> {
   return new Promise(r => setTimeout(r, ms));
@@ -24,6 +51,9 @@ async function runE2ETest() {
   
   const processes: Subprocess[] = [];
   const agents: Agent[] = [];
+  const callbackServer = CALLBACK
+    ? Bun.serve({ port: CALLBACK_PORT, fetch: req => handleCallback(req) })
+    : undefined;
   
   try {
     // Spawn agents
@@ -35,20 +65,27 @@ async function runE2ETest() {
         env: {
           ...process.env,
           SVP_PORT: String(port),
+          SVP_PATH: i % 2 === 0 ? '/.well-known/svp-challenge' : '/api/svp',
           AGENT_ID: agentId,
+          SVP_DELIVERY: CALLBACK ? 'callback' : 'sync',
         },
         stdout: 'pipe',
         stderr: 'pipe',
       });
       
+      const transport = TRANSPORT === 'mixed'
+        ? ALL_TRANSPORTS[i % ALL_TRANSPORTS.length]
+        : TRANSPORT as TransportKind;
+      
       processes.push(proc);
       agents.push({
         id: agentId,
         name: `Test Agent ${i + 1}`,
-        endpoint: `http://localhost:${port}`,
+        endpoint: transportEndpoint(transport, port),
+        transport,
       });
       
-      console.log(`  Started ${agentId} on port ${port}`);
+      console.log(`  Started ${agentId} on port ${port} (${transport})`);
     }
     
     // Wait for agents to start
@@ -59,7 +96,7 @@ async function runE2ETest() {
     console.log('Checking agent health...\n');
     for (const agent of agents) {
       try {
-        const response = await fetch(`${agent.endpoint}/health`, {
+        const response = await fetch(`http://localhost:${new URL(agent.endpoint).port}/health`, {
           signal: AbortSignal.timeout(2000),
         });
         if (response.ok) {
@@ -77,10 +114,17 @@ async function runE2ETest() {
     console.log('SWARM VERIFICATION');
     console.log('═══════════════════════════════════════\n');
     
-    const challenge = generateChallenge('parallel', agents.map(a => a.id), 10000);
+    const challenge = generateChallenge(CHALLENGE_TYPE, agents.map(a => a.id), 10000, {
+      svpType: SVP_TYPE,
+      nonceBound: NONCE_BOUND,
+      timeLocked: TIME_LOCK,
+    });
     console.log(`Challenge: "${challenge.prompt}"\n`);
     
-    const dispatchResult = await dispatchChallenge(agents, challenge, 10000);
+    const dispatchResult = await dispatchChallenge(agents, challenge, 10000, {
+      callbackUrl: callbackServer ? `http://localhost:${CALLBACK_PORT}/callback` : undefined,
+      commitReveal: COMMIT_REVEAL,
+    });
     
     // Show individual responses
     console.log('\nResponses:');
@@ -89,12 +133,25 @@ async function runE2ETest() {
       if (r.error) {
         console.log(`  ❌ ${agent?.name}: ${r.error}`);
       } else {
-        console.log(`  ✅ ${agent?.name}: "${r.response}" (${r.latencyMs}ms)`);
+        const via = r.delivery === 'callback' ? ', via callback' : '';
+        console.log(`  ✅ ${agent?.name}: "${r.response.replace(/\n/g, ' | ')}" (${r.latencyMs}ms${via})`);
+        if (r.timing) {
+          const t = r.timing;
+          const setup = t.reusedConnection ? 'reused' : `${(t.dnsMs + t.connectMs + t.tlsMs).toFixed(1)}ms`;
+          console.log(`     connect ${setup}, TTFB ${t.ttfbMs.toFixed(1)}ms, body ${t.bodyMs.toFixed(1)}ms, processing ${t.processingMs.toFixed(1)}ms`);
+        }
+        if (r.timeline) {
+          const gaps = r.timeline.interTokenMs;
+          const meanItt = gaps.length > 0 ? gaps.reduce((a, b) => a + b, 0) / gaps.length : 0;
+          console.log(`     ${r.timeline.tokens.length} tokens, TTFT ${r.timeline.timeToFirstTokenMs.toFixed(0)}ms, mean ITT ${meanItt.toFixed(1)}ms`);
+        }
       }
     }
     
     // Analyze
-    const verification = analyzeSwarm(agents, challenge, dispatchResult.responses);
+    const verification = analyzeSwarm(agents, challenge, dispatchResult.responses, {
+      calibration: dispatchResult.calibration,
+    });
     printVerificationSummary(verification);
     
     // Summary
@@ -106,6 +163,8 @@ async function runE2ETest() {
       console.log('✅ PASS: Swarm verified as GENUINE');
     } else if (verification.verdict === 'suspicious') {
       console.log('⚠️  WARN: Swarm is SUSPICIOUS');
+    } else if (verification.verdict === 'insufficient_data') {
+      console.log('⚠️  WARN: Too little data for a verdict');
     } else {
       console.log('❌ FAIL: Swarm appears FAKE');
     }
@@ -118,6 +177,7 @@ async function runE2ETest() {
     for (const proc of processes) {
       proc.kill();
     }
+    callbackServer?.stop(true);
     console.log('Done.');
   }
 }
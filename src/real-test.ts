@@ -120,7 +120,9 @@ async function testAgents(agents: Agent[]) {
   }
   
   // Analyze
-  const verification = analyzeSwarm(agents, challenge, dispatchResult.responses);
+  const verification = analyzeSwarm(agents, challenge, dispatchResult.responses, {
+    calibration: dispatchResult.calibration,
+  });
   printVerificationSummary(verification);
   
   // Note about results
@@ -8,6 +8,7 @@
 import type { Agent, ChallengeResponse } from './types';
 import { generateChallenge } from './services/challenger';
 import { analyzeSwarm, printVerificationSummary } from './services/analyzer';
+import { solveTask } from './services/tasks';
 
 // OpenClaw can call itself via sessions
 async function selfChallenge(prompt: string): Promise<{ response: string; latencyMs: number }> {
@@ -21,9 +22,13 @@ async function selfChallenge(prompt: string): Promise<{ response: string; latenc
   await new Promise(r => setTimeout(r, inferenceTime));
   
   // Generate response based on prompt
+  // Generated tasks are solved for real; fixed prompts by lookup
+  const solved = solveTask(prompt);
   let response = '';
   
-  if (prompt.includes('3 words') && prompt.includes('blue')) {
+  if (solved !== undefined) {
+    response = solved;
+  } else if (prompt.includes('3 words') && prompt.includes('blue')) {
     response = 'Calm, cool, vast';
   } else if (prompt.includes('2, 4, 8, 16')) {
     response = '32';
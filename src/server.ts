@@ -4,15 +4,25 @@
  * Public API for swarm verification.
  */
 
-import type { Agent, ChallengeRequest, SwarmVerification } from './types';
-import { generateChallenge } from './services/challenger';
+import type { Agent, ChallengeRequest, SvpChallengeType, SwarmVerification } from './types';
+import { generateChallenge, MAX_BATCH_SIZE } from './services/challenger';
 import { dispatchChallenge } from './services/dispatcher';
-import { analyzeSwarm, printVerificationSummary } from './services/analyzer';
+import { analyzeSession, analyzeSwarm, printVerificationSummary } from './services/analyzer';
+import { runSession, DEFAULT_SPACING_MS, MAX_ROUNDS, MAX_SPACING_MS } from './services/session';
+import { escalate, DEFAULT_ESCALATION_BUDGET, MAX_ESCALATION_BUDGET } from './services/escalation';
+import { listScoring, resolveScoring } from './services/scoring';
+import { handleCallback } from './services/callbacks';
 import { attestSwarm, uploadEvidence } from './services/attester';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 3403;
 const WALLET_PASSWORD = process.env.WALLET_PASSWORD || '';
 const ENABLE_ATTESTATION = process.env.ENABLE_ATTESTATION === 'true';
+// Public URL agents POST callback answers to (defaults to this server's /callback)
+const CALLBACK_URL = process.env.CALLBACK_URL;
+// Sessions run inside the POST /verify request; day-long windows are for the CLI
+const MAX_REQUEST_SESSION_MS = 10 * 60 * 1000;
+
+const SVP_TYPES: SvpChallengeType[] = ['text', 'stream', 'batch'];
 
 // In-memory store for verifications
 const verifications = new Map<string, SwarmVerification>();
@@ -59,6 +69,8 @@ const server = Bun.serve({
           'POST /verify': 'Submit agents for swarm verification',
           'GET /result/:id': 'Get verification result',
           'GET /stats': 'Service statistics',
+          'GET /scoring': 'Scoring profiles and scorers',
+          'POST /callback': 'Deliver a deferred challenge answer (callback mode)',
         },
       });
     }
@@ -69,16 +81,27 @@ const server = Bun.serve({
       const genuine = results.filter(v => v.verdict === 'genuine').length;
       const suspicious = results.filter(v => v.verdict === 'suspicious').length;
       const fake = results.filter(v => v.verdict === 'likely_fake').length;
+      const insufficient = results.filter(v => v.verdict === 'insufficient_data').length;
       
       return jsonResponse({
         totalVerifications: results.length,
-        verdicts: { genuine, suspicious, likely_fake: fake },
+        verdicts: { genuine, suspicious, likely_fake: fake, insufficient_data: insufficient },
         averageScore: results.length > 0 
           ? Math.round(results.reduce((sum, v) => sum + v.overallScore, 0) / results.length)
           : 0,
       });
     }
     
+    // Scoring profiles and scorers, for choosing a `profile`
+    if (path === '/scoring') {
+      return jsonResponse(listScoring());
+    }
+    
+    // Deferred answers from agents in callback mode
+    if (path === '/callback' && req.method === 'POST') {
+      return handleCallback(req);
+    }
+    
     // Submit verification request
     if (path === '/verify' && req.method === 'POST') {
       try {
@@ -93,21 +116,169 @@ const server = Bun.serve({
         }
         
         const challengeType = body.challengeType || 'parallel';
+        const svpType = body.svpType ?? 'text';
         const timeoutMs = body.timeoutMs || 10000;
+        const callbackUrl = body.delivery === 'callback'
+          ? CALLBACK_URL || `${url.origin}/callback`
+          : undefined;
+        
+        if (!SVP_TYPES.includes(svpType)) {
+          return jsonResponse({ error: `svpType must be one of: ${SVP_TYPES.join(', ')}` }, 400);
+        }
+        
+        const rounds = body.rounds ?? 1;
+        
+        if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_ROUNDS) {
+          return jsonResponse({ error: `rounds must be an integer from 1 to ${MAX_ROUNDS}` }, 400);
+        }
         
-        // Generate challenge
-        const agentIds = body.agents.map(a => a.id);
-        const challenge = generateChallenge(challengeType, agentIds, timeoutMs);
+        if (body.roundSpacingMs !== undefined && !(body.roundSpacingMs >= 0 && body.roundSpacingMs <= MAX_SPACING_MS)) {
+          return jsonResponse({ error: `roundSpacingMs must be from 0 to ${MAX_SPACING_MS}` }, 400);
+        }
+        
+        if (body.windowMs !== undefined && !(body.windowMs >= 0 && body.windowMs <= MAX_REQUEST_SESSION_MS)) {
+          return jsonResponse({ error: `windowMs must be from 0 to ${MAX_REQUEST_SESSION_MS}` }, 400);
+        }
+        
+        // Consistency sessions spread over the window; the rest pause between rounds
+        const sessionMs = challengeType === 'consistency' && body.windowMs !== undefined
+          ? body.windowMs
+          : (rounds - 1) * (body.roundSpacingMs ?? DEFAULT_SPACING_MS);
+        if (sessionMs > MAX_REQUEST_SESSION_MS) {
+          return jsonResponse({
+            error: `Session would run ~${Math.round(sessionMs / 1000)}s; requests are limited to ${MAX_REQUEST_SESSION_MS / 1000}s (use fewer rounds, less spacing, or the CLI)`,
+          }, 400);
+        }
+        
+        if (body.batchSize !== undefined
+          && !(Number.isInteger(body.batchSize) && body.batchSize >= 1 && body.batchSize <= MAX_BATCH_SIZE)) {
+          return jsonResponse({ error: `batchSize must be an integer from 1 to ${MAX_BATCH_SIZE}` }, 400);
+        }
+        
+        const escalationBudget = body.escalationBudget ?? DEFAULT_ESCALATION_BUDGET;
+        if (!Number.isInteger(escalationBudget) || escalationBudget < 0 || escalationBudget > MAX_ESCALATION_BUDGET) {
+          return jsonResponse({ error: `escalationBudget must be an integer from 0 to ${MAX_ESCALATION_BUDGET}` }, 400);
+        }
+        
+        const scoring = { profile: body.profile, scorers: body.scorers };
+        try {
+          resolveScoring(scoring);
+        } catch (error) {
+          return jsonResponse({ error: (error as Error).message }, 400);
+        }
+        
+        const challengeOptions = {
+          svpType,
+          batchSize: body.batchSize,
+          nonceBound: body.nonceBound,
+          timeLocked: body.timeLocked,
+        };
         
         console.log(`\n🚀 New verification request`);
         console.log(`   Agents: ${body.agents.length}`);
-        console.log(`   Type: ${challengeType}`);
+        console.log(`   Type: ${challengeType} (${svpType})`);
         
-        // Dispatch to all agents
-        const dispatchResult = await dispatchChallenge(body.agents, challenge, timeoutMs);
+        let verification: SwarmVerification;
+        let details: Record<string, unknown>;
         
-        // Analyze results
-        const verification = analyzeSwarm(body.agents, challenge, dispatchResult.responses);
+        if (rounds > 1) {
+          // Multi-round session: a latency distribution per agent
+          const session = await runSession(body.agents, {
+            rounds,
+            challengeType,
+            challengeOptions,
+            timeoutMs,
+            spacingMs: body.roundSpacingMs,
+            windowMs: body.windowMs,
+            callbackUrl,
+            commitReveal: body.commitReveal,
+          });
+          
+          verification = analyzeSession(body.agents, session.rounds, {
+            calibration: session.calibration,
+            scoring,
+          });
+          
+          details = {
+            challenged: body.agents.length,
+            rounds,
+            responded: verification.responses.filter(r => !r.error).length,
+            swarmStats: verification.session?.swarmStats,
+            agentStats: verification.session?.agentStats,
+            windowMs: session.windowMs,
+            temporal: verification.session?.temporal,
+            calibration: verification.calibration,
+            failures: verification.failures,
+            commitReveal: verification.commitReveal,
+            correctness: verification.correctness,
+            distributed: verification.distributed,
+            scores: verification.scores,
+          };
+        } else {
+          // Generate challenge
+          const agentIds = body.agents.map(a => a.id);
+          const challenge = generateChallenge(challengeType, agentIds, timeoutMs, challengeOptions);
+          
+          // Dispatch to all agents
+          const dispatchResult = await dispatchChallenge(body.agents, challenge, timeoutMs, {
+            callbackUrl,
+            commitReveal: body.commitReveal,
+          });
+          
+          // Analyze results
+          verification = analyzeSwarm(body.agents, challenge, dispatchResult.responses, {
+            calibration: dispatchResult.calibration,
+            scoring,
+          });
+          
+          details = {
+            challenged: body.agents.length,
+            responded: dispatchResult.respondedCount,
+            avgLatencyMs: Math.round(dispatchResult.avgLatencyMs),
+            timingStats: dispatchResult.timingStats,
+            calibration: verification.calibration,
+            failures: verification.failures,
+            commitReveal: verification.commitReveal,
+            correctness: verification.correctness,
+            distributed: verification.distributed,
+            scores: verification.scores,
+          };
+        }
+        
+        // Per-agent breakdown, so operators can drop bad agents instead of the swarm
+        details.agentScores = verification.agentScores;
+        details.clusters = verification.clusters;
+        details.likelyHuman = verification.agentScores?.filter(a => a.likelyHuman).map(a => a.agentId);
+        if (verification.customScores) details.customScores = verification.customScores;
+        if (verification.scorerErrors) details.scorerErrors = verification.scorerErrors;
+        // How far the score can be trusted, given how many agents it rests on
+        details.intervals = verification.intervals;
+        details.confidence = verification.confidence;
+        
+        // Borderline verdicts get harder challenges, up to the budget
+        const escalated = await escalate(body.agents, verification, { challengeType, challengeOptions, rounds }, {
+          budget: escalationBudget,
+          timeoutMs,
+          callbackUrl,
+          commitReveal: body.commitReveal,
+          scoring,
+        });
+        if (escalated.escalation) {
+          // The score and verdict now combine every stage; the breakdown so far
+          // is stage 0's, so it moves under `initial` to keep the two apart
+          details = {
+            initial: { ...details, overallScore: verification.overallScore, verdict: verification.verdict },
+            escalation: escalated.escalation,
+            intervals: escalated.intervals && {
+              level: escalated.intervals.level,
+              samples: escalated.intervals.samples,
+              overall: escalated.intervals.overall,
+            },
+            confidence: escalated.confidence,
+          };
+        }
+        verification = escalated;
+        details.scoring = verification.scoring;
         
         // Store result
         verifications.set(verification.id, verification);
@@ -131,13 +302,7 @@ const server = Bun.serve({
           verificationId: verification.id,
           overallScore: verification.overallScore,
           verdict: verification.verdict,
-          details: {
-            challenged: body.agents.length,
-            responded: dispatchResult.respondedCount,
-            avgLatencyMs: Math.round(dispatchResult.avgLatencyMs),
-            timingStats: dispatchResult.timingStats,
-            scores: verification.scores,
-          },
+          details,
           attestation,
         });
         
@@ -173,5 +338,7 @@ console.log(`Attestation: ${ENABLE_ATTESTATION ? 'enabled' : 'disabled'}`);
 console.log(`\nEndpoints:`);
 console.log(`  GET  /health        - Health check`);
 console.log(`  GET  /stats         - Service statistics`);
+console.log(`  GET  /scoring       - Scoring profiles and scorers`);
+console.log(`  POST /callback      - Deliver a deferred answer (callback mode)`);
 console.log(`  POST /verify        - Submit swarm for verification`);
 console.log(`  GET  /result/:id    - Get verification result`);
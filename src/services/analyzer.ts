@@ -5,25 +5,114 @@
  * Based on the insight: "prove non-human scalability" not "prove you're not human"
  */
 
-import type { ChallengeResponse, SwarmVerification, Agent, Challenge } from '../types';
+import type {
+  AgentFlag,
+  AgentFlagKind,
+  AgentScore,
+  ChallengeResponse,
+  SwarmVerification,
+  Agent,
+  Challenge,
+  ChallengeFailure,
+  CorrectnessResult,
+  FailureKind,
+  IttFingerprint,
+  BatchResult,
+  LatencyStats,
+  NetworkCalibration,
+  ScoreInterval,
+  SessionRound,
+  TemporalDrift,
+  TimingComponent,
+  Verdict,
+  VerdictThresholds,
+} from '../types';
+import { extractIttFingerprint, scoreRhythmSimilarity } from './rhythm';
+import { clusterMatrix } from './clustering';
+import {
+  bootstrapSeed,
+  percentileInterval,
+  resampleAgents,
+  resampleCalibration,
+  resampleChallenge,
+  resampleResponses,
+  seededRandom,
+  type AgentResample,
+} from './bootstrap';
+import {
+  combineScores,
+  DEFAULT_PROFILE,
+  DEFAULT_THRESHOLDS,
+  resolveScoring,
+  runCustomScorers,
+  scoringRecord,
+  type ScoringSelection,
+} from './scoring';
+import { inverseDocumentFrequency, textSimilarity } from './similarity';
+import { checkAnswer, isNonceBound, reassemble } from './tasks';
 
-interface AnalysisScores {
-  responseTime: number;
-  timeVariance: number;
-  tailBehavior: number;  // NEW: Analyze outliers
-  consistency: number;
-  participation: number;
+type AnalysisScores = SwarmVerification['scores'];
+
+type TimingScorer = 'responseTime' | 'timeVariance' | 'tailBehavior';
+
+export interface AnalysisOptions {
+  // Which part of each response's timing the latency scorers look at
+  timingComponents?: Partial<Record<TimingScorer, TimingComponent>>;
+  // Baseline RTT per agent from the dispatcher, for 'adjusted' latency
+  calibration?: NetworkCalibration[];
+  // Scoring profile and per-scorer switches (default profile when unset)
+  scoring?: ScoringSelection;
+  // Bootstrap resamples for confidence intervals (0 skips them)
+  bootstrapSamples?: number;
+}
+
+export const DEFAULT_BOOTSTRAP_SAMPLES = 200;
+
+const INTERVAL_LEVEL = 0.95;
+
+// A verdict needs answers from at least this many distinct agents
+export const MIN_ANSWERING_AGENTS = 2;
+
+// Bootstrap agreement with the verdict at or above which confidence is high / medium
+const HIGH_CONFIDENCE = 0.9;
+const MEDIUM_CONFIDENCE = 0.7;
+
+// Connection setup (DNS, TLS) and distance are network noise, not agent behavior
+const DEFAULT_TIMING_COMPONENTS: Record<TimingScorer, TimingComponent> = {
+  responseTime: 'adjusted',
+  timeVariance: 'adjusted',
+  tailBehavior: 'adjusted',
+};
+
+type LatencyFn = (response: ChallengeResponse) => number;
+
+/**
+ * Pick one timing component of a response.
+ * Simulated responses have no breakdown and fall back to latencyMs; without a
+ * calibrated RTT, 'adjusted' is the same as 'response'.
+ */
+function latencyOf(response: ChallengeResponse, component: TimingComponent, rttMs: number = 0): number {
+  const timing = response.timing;
+  if (!timing) return response.latencyMs;
+  
+  switch (component) {
+    case 'total': return timing.totalMs;
+    case 'response': return timing.ttfbMs + timing.bodyMs;
+    case 'ttfb': return timing.ttfbMs;
+    case 'adjusted': return Math.max(0, timing.ttfbMs + timing.bodyMs - rttMs);
+    case 'latency': return response.latencyMs;
+  }
 }
 
 /**
  * Score response times
  * Fast responses (< 2s) score high, slow responses (> 5s) score low
  */
-function scoreResponseTime(responses: ChallengeResponse[]): number {
+function scoreResponseTime(responses: ChallengeResponse[], latency: LatencyFn): number {
   const successful = responses.filter(r => !r.error);
   if (successful.length === 0) return 0;
   
-  const avgLatency = successful.reduce((sum, r) => sum + r.latencyMs, 0) / successful.length;
+  const avgLatency = successful.reduce((sum, r) => sum + latency(r), 0) / successful.length;
   
   // < 500ms = 100, 500-2000ms = 80-100, 2000-5000ms = 50-80, > 5000ms = 0-50
   if (avgLatency < 500) return 100;
@@ -37,11 +126,11 @@ function scoreResponseTime(responses: ChallengeResponse[]): number {
  * Low variance = coordinated AI (high score)
  * High variance = human coordination (low score)
  */
-function scoreTimeVariance(responses: ChallengeResponse[]): number {
+function scoreTimeVariance(responses: ChallengeResponse[], latency: LatencyFn): number {
   const successful = responses.filter(r => !r.error);
   if (successful.length < 2) return 50; // Not enough data
   
-  const latencies = successful.map(r => r.latencyMs);
+  const latencies = successful.map(latency);
   const avg = latencies.reduce((a, b) => a + b, 0) / latencies.length;
   const variance = latencies.reduce((sum, l) => sum + Math.pow(l - avg, 2), 0) / latencies.length;
   const stdDev = Math.sqrt(variance);
@@ -65,11 +154,11 @@ function scoreTimeVariance(responses: ChallengeResponse[]): number {
  * 
  * Based on feedback: "look at tail behavior, not just mean"
  */
-function scoreTailBehavior(responses: ChallengeResponse[]): number {
+function scoreTailBehavior(responses: ChallengeResponse[], latency: LatencyFn): number {
   const successful = responses.filter(r => !r.error);
   if (successful.length < 3) return 50; // Not enough data
   
-  const latencies = successful.map(r => r.latencyMs).sort((a, b) => a - b);
+  const latencies = successful.map(latency).sort((a, b) => a - b);
   const n = latencies.length;
   
   // Calculate percentiles
@@ -105,12 +194,22 @@ function scoreTailBehavior(responses: ChallengeResponse[]): number {
   return (tailScore * 0.6 + spreadScore * 0.4);
 }
 
+/**
+ * Whether every agent is expected to give a different answer (distributed
+ * segments, nonce-bound tasks)
+ */
+function expectsDistinctAnswers(challenge: Challenge): boolean {
+  return challenge.segments !== undefined || (challenge.validator !== undefined && isNonceBound(challenge.validator));
+}
+
 /**
  * Score response consistency
  * Similar responses = same model = genuine AI
  * Wildly different = humans or different models
+ * Distributed and nonce-bound challenges expect a different answer from
+ * every agent, so only the shape (length) of the answers is compared.
  */
-function scoreConsistency(responses: ChallengeResponse[]): number {
+function scoreConsistency(responses: ChallengeResponse[], shapeOnly: boolean = false): number {
   const successful = responses.filter(r => !r.error && r.response);
   if (successful.length < 2) return 50;
   
@@ -121,19 +220,17 @@ function scoreConsistency(responses: ChallengeResponse[]): number {
   const lengthStdDev = Math.sqrt(lengthVariance);
   const lengthCV = avgLength > 0 ? lengthStdDev / avgLength : 1;
   
-  // Check for common patterns (simple token overlap)
-  const tokens = successful.map(r => new Set(r.response.toLowerCase().split(/\s+/)));
+  if (shapeOnly) return Math.max(0, 100 - lengthCV * 100);
+  
+  // Check for common content (normalized text, distinctive words weighted up)
+  const idf = inverseDocumentFrequency(successful.map(r => r.response));
   let overlapScore = 0;
   let comparisons = 0;
   
-  for (let i = 0; i < tokens.length; i++) {
-    for (let j = i + 1; j < tokens.length; j++) {
-      const intersection = [...tokens[i]].filter(t => tokens[j].has(t)).length;
-      const union = new Set([...tokens[i], ...tokens[j]]).size;
-      if (union > 0) {
-        overlapScore += intersection / union; // Jaccard similarity
-        comparisons++;
-      }
+  for (let i = 0; i < successful.length; i++) {
+    for (let j = i + 1; j < successful.length; j++) {
+      overlapScore += textSimilarity(successful[i].response, successful[j].response, idf);
+      comparisons++;
     }
   }
   
@@ -147,22 +244,722 @@ function scoreConsistency(responses: ChallengeResponse[]): number {
 }
 
 /**
- * Score participation rate
+ * Score token rhythm (ITT fingerprints)
+ * Only streamed responses carry token timings; without them there is no score.
  */
-function scoreParticipation(responses: ChallengeResponse[], totalAgents: number): number {
+function scoreTokenRhythm(responses: ChallengeResponse[]): { score?: number; fingerprints: IttFingerprint[] } {
+  const fingerprints = responses
+    .filter(r => !r.error)
+    .map(extractIttFingerprint)
+    .filter((f): f is IttFingerprint => f !== null);
+  
+  if (fingerprints.length === 0) return { fingerprints };
+  return { score: scoreRhythmSimilarity(fingerprints), fingerprints };
+}
+
+/**
+ * Normalize a short answer for comparison with the answer key
+ */
+function normalizeAnswer(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check a fixed-list batch answer: exact match, or the expected word appears in the answer
+ */
+function isCorrectAnswer(answer: string, expected: string): boolean {
+  const a = normalizeAnswer(answer);
+  const e = normalizeAnswer(expected);
+  return a === e || a.split(' ').includes(e);
+}
+
+/**
+ * Score the pace of a batch: ms per answer
+ * An LLM answers ten quick tasks in one pass; a human copy-pasting takes seconds each
+ */
+function scoreBatchPace(msPerAnswer: number): number {
+  if (msPerAnswer < 300) return 100;
+  if (msPerAnswer < 1000) return 80 + (1000 - msPerAnswer) / 35;
+  if (msPerAnswer < 3000) return 50 + (3000 - msPerAnswer) / 66.7;
+  return Math.max(0, 50 - (msPerAnswer - 3000) / 200);
+}
+
+/**
+ * Score batch challenges
+ * Each answer is checked against the answer key and timed from the agent's
+ * per-answer timestamps; the swarm score combines pace and accuracy per agent.
+ */
+function scoreBatch(challenge: Challenge, responses: ChallengeResponse[]): { score?: number; results: BatchResult[] } {
+  const prompts = challenge.prompts;
+  if (!prompts || prompts.length === 0) return { results: [] };
+  
+  const expected = challenge.expectedAnswers ?? [];
+  const results: BatchResult[] = [];
+  
+  for (const r of responses.filter(r => !r.error)) {
+    const answers = r.answers ?? [];
+    
+    // Per-answer latency: gap since the previous answer, in the agent's own order
+    const byTime = answers
+      .filter(a => a.agentTimeMs !== undefined)
+      .sort((a, b) => a.agentTimeMs! - b.agentTimeMs!);
+    const latencyByIndex = new Map<number, number>();
+    let previous = 0;
+    for (const a of byTime) {
+      const time = Math.min(Math.max(a.agentTimeMs!, previous), r.latencyMs);
+      latencyByIndex.set(a.index, time - previous);
+      previous = time;
+    }
+    
+    const scored = answers.map(a => ({
+      index: a.index,
+      latencyMs: latencyByIndex.get(a.index),
+      correct: expected[a.index] === undefined ? undefined
+        : challenge.validators?.[a.index]
+          ? checkAnswer(challenge.validators[a.index], a.response, expected[a.index], r.nonce)
+          : isCorrectAnswer(a.response, expected[a.index]),
+    }));
+    
+    // Missing answers count as wrong
+    const keyed = prompts.filter((_, i) => expected[i] !== undefined).length;
+    const correct = scored.filter(a => a.correct).length;
+    
+    results.push({
+      agentId: r.agentId,
+      answers: scored,
+      answeredCount: answers.length,
+      msPerAnswer: r.latencyMs / prompts.length,
+      accuracy: keyed > 0 ? correct / keyed : undefined,
+    });
+  }
+  
+  if (results.length === 0) return { score: 0, results };
+  
+  const agentScores = results.map(b => {
+    const pace = scoreBatchPace(b.msPerAnswer) * (b.answeredCount / prompts.length);
+    return b.accuracy !== undefined ? pace * 0.5 + b.accuracy * 100 * 0.5 : pace;
+  });
+  
+  return {
+    score: agentScores.reduce((a, b) => a + b, 0) / agentScores.length,
+    results,
+  };
+}
+
+/**
+ * Find signing keys used by agents claiming different identities
+ */
+function findSharedKeys(agents: Agent[], responses: ChallengeResponse[]): { signer: string; agentIds: string[] }[] {
+  const bySigner = new Map<string, ChallengeResponse[]>();
+  for (const r of responses) {
+    const signer = r.signature?.signer?.toLowerCase();
+    if (!signer) continue;
+    bySigner.set(signer, [...(bySigner.get(signer) ?? []), r]);
+  }
+  
+  const shared: { signer: string; agentIds: string[] }[] = [];
+  for (const [signer, signed] of bySigner) {
+    const identities = new Set(signed.map(r => {
+      const agent = agents.find(a => a.id === r.agentId);
+      return agent?.tokenId ?? r.agentId;
+    }));
+    if (identities.size > 1) {
+      shared.push({ signer, agentIds: signed.map(r => r.agentId) });
+    }
+  }
+  return shared;
+}
+
+type CorrectnessReport = NonNullable<SwarmVerification['correctness']>;
+
+/**
+ * Put a distributed challenge's segment answers back together and check the
+ * whole. Undefined for other challenges.
+ */
+function reassembleDistributed(challenge: Challenge, responses: ChallengeResponse[]): SwarmVerification['distributed'] {
+  if (!challenge.segments || !challenge.combine || challenge.expectedAnswer === undefined) return undefined;
+  
+  const segments = [...challenge.segments].sort((a, b) => a.index - b.index);
+  const answers = segments.map(s => responses.find(r => r.agentId === s.agentId && !r.error)?.response);
+  const answer = reassemble(challenge.combine, answers);
+  
+  return {
+    segments: segments.length,
+    answered: answers.filter(a => a !== undefined).length,
+    correctSegments: segments.filter((s, i) => answers[i] !== undefined && checkAnswer(s.validator, answers[i]!, s.expected)).length,
+    answer,
+    expected: challenge.expectedAnswer,
+    correct: answer !== undefined && checkAnswer(challenge.validator ?? 'exact', answer, challenge.expectedAnswer),
+  };
+}
+
+/**
+ * Check answers against the challenge's answer key (expected answer and
+ * validator, or the batch key). Agreement-based scores can't tell a swarm
+ * that all gives the same wrong answer from one that is right; this can.
+ * Undefined when the challenge has no answer key.
+ */
+function scoreCorrectness(
+  challenge: Challenge,
+  responses: ChallengeResponse[],
+  batchResults: BatchResult[]
+): { score?: number; report?: CorrectnessReport } {
   const successful = responses.filter(r => !r.error);
-  return (successful.length / totalAgents) * 100;
+  const results: CorrectnessResult[] = [];
+  const wrongAnswers = new Map<string, string[]>();
+  
+  if (challenge.segments) {
+    // Each agent is checked against its own segment
+    for (const r of successful) {
+      const segment = challenge.segments.find(s => s.agentId === r.agentId);
+      if (!segment) continue;
+      const correct = checkAnswer(segment.validator, r.response, segment.expected, r.nonce);
+      results.push({ agentId: r.agentId, checked: 1, correct: correct ? 1 : 0, accuracy: correct ? 1 : 0 });
+    }
+  } else if (challenge.prompts) {
+    // Missing batch answers count as wrong
+    const keyed = (challenge.expectedAnswers ?? []).filter(e => e !== undefined).length;
+    if (keyed === 0) return {};
+    const nonceBound = (i: number) => challenge.validators?.[i] !== undefined && isNonceBound(challenge.validators[i]);
+    for (const b of batchResults) {
+      const correct = b.answers.filter(a => a.correct).length;
+      const fresh = b.answers.filter(a => a.correct && nonceBound(a.index)).length;
+      results.push({ agentId: b.agentId, checked: keyed, correct, accuracy: correct / keyed, fresh });
+    }
+  } else {
+    if (!challenge.validator || challenge.expectedAnswer === undefined) return {};
+    const nonceBound = isNonceBound(challenge.validator);
+    for (const r of successful) {
+      const correct = checkAnswer(challenge.validator, r.response, challenge.expectedAnswer, r.nonce);
+      results.push({
+        agentId: r.agentId,
+        checked: 1,
+        correct: correct ? 1 : 0,
+        accuracy: correct ? 1 : 0,
+        fresh: nonceBound && correct ? 1 : 0,
+      });
+      
+      if (!correct) {
+        const answer = normalizeAnswer(r.response);
+        wrongAnswers.set(answer, [...(wrongAnswers.get(answer) ?? []), r.agentId]);
+      }
+    }
+  }
+  
+  if (results.length === 0) return {};
+  
+  const accuracy = results.reduce((sum, c) => sum + c.accuracy, 0) / results.length;
+  const sharedWrong = [...wrongAnswers]
+    .filter(([answer, agentIds]) => answer && agentIds.length > 1)
+    .map(([answer, agentIds]) => ({ answer, agentIds }));
+  
+  return { score: accuracy * 100, report: { agents: results, accuracy, sharedWrong } };
+}
+
+/**
+ * Score content (PROTOCOL.md "Content Score")
+ * Per agent: correct/relevant answer +50, expected format +25, signed +25.
+ * With an answer key, "correct" is the agent's accuracy against it; without
+ * one, any non-empty answer counts as relevant.
+ * Only identity-bound signatures get the full +25; a valid signature from an
+ * unregistered key gets +10, and a key shared between identities gets nothing.
+ */
+function scoreContent(
+  challenge: Challenge,
+  responses: ChallengeResponse[],
+  batchResults: BatchResult[],
+  correctness: CorrectnessResult[],
+  sharedSigners: Set<string>
+): number {
+  const successful = responses.filter(r => !r.error);
+  if (successful.length === 0) return 0;
+  
+  const perAgent = successful.map(r => {
+    const batch = batchResults.find(b => b.agentId === r.agentId);
+    const hasAnswer = r.response.trim().length > 0;
+    
+    const checked = correctness.find(c => c.agentId === r.agentId);
+    const relevance = checked ? checked.accuracy * 50 : hasAnswer ? 50 : 0;
+    const format = batch
+      ? 25 * (batch.answeredCount / (challenge.prompts?.length || 1))
+      : hasAnswer && r.response.length <= 280 ? 25 : 0;
+    
+    let signed = 0;
+    const signer = r.signature?.signer?.toLowerCase();
+    if (r.signature?.valid && signer && !sharedSigners.has(signer)) {
+      signed = r.signature.identityBound ? 25 : 10;
+    }
+    
+    return relevance + format + signed;
+  });
+  
+  return perAgent.reduce((a, b) => a + b, 0) / perAgent.length;
+}
+
+/**
+ * How much each kind of failure costs in participation (1 = as bad as silence).
+ * Timeouts and garbage answers are what a farm looks like under load; a DNS
+ * or TLS error is more likely an operator misconfiguration than evidence
+ * either way. A 5xx means the agent is up but fell over; a 4xx usually means
+ * it never set up SVP at the path we tried. An agent that wasn't challenged
+ * (e.g. it doesn't advertise the challenge type) failed nothing, and is left
+ * out of participation altogether.
+ */
+const FAILURE_PENALTIES: Record<FailureKind, number> = {
+  timeout: 1,
+  malformed_body: 1,
+  oversize: 1,
+  nonce_mismatch: 1,
+  bad_reveal: 1,
+  http_status: 0.75,
+  rpc_error: 0.75,
+  network: 0.75,
+  dns: 0.5,
+  connection_refused: 0.5,
+  tls: 0.5,
+  not_challenged: 0,
+};
+
+function failurePenalty(failure: ChallengeFailure): number {
+  if (failure.kind === 'http_status' && failure.status !== undefined && failure.status < 500) {
+    return 0.5;
+  }
+  return FAILURE_PENALTIES[failure.kind];
+}
+
+/**
+ * Count failed responses by kind
+ */
+function countFailures(responses: ChallengeResponse[]): Partial<Record<FailureKind, number>> {
+  const counts: Partial<Record<FailureKind, number>> = {};
+  for (const r of responses) {
+    if (r.failure) counts[r.failure.kind] = (counts[r.failure.kind] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Summarize commit-reveal: commitments made, and how many reveals opened them.
+ * Undefined outside commit-reveal mode. Latency scorers need nothing special:
+ * a committed response's timing is the commit's, when its answer was fixed.
+ */
+function summarizeCommits(responses: ChallengeResponse[]): SwarmVerification['commitReveal'] {
+  const committed = responses.filter(r => r.commit);
+  if (committed.length === 0) return undefined;
+  
+  return {
+    committed: committed.length,
+    revealed: committed.filter(r => r.commit!.verified).length,
+    badReveals: responses.filter(r => r.failure?.kind === 'bad_reveal').length,
+  };
+}
+
+/**
+ * Score participation rate, with failures penalized by kind
+ */
+function scoreParticipation(responses: ChallengeResponse[], totalAgents: number): number {
+  const challenged = responses.filter(r => r.failure?.kind !== 'not_challenged');
+  const expected = totalAgents - (responses.length - challenged.length);
+  if (expected <= 0) return 0;
+  
+  // Agents with no response at all count as full failures
+  let penalty = Math.max(0, expected - challenged.length);
+  for (const r of challenged) {
+    if (r.failure) penalty += failurePenalty(r.failure);
+    else if (r.error) penalty += 1;
+  }
+  
+  return Math.max(0, (1 - penalty / expected) * 100);
+}
+
+/**
+ * Check echo verification failures
+ * A replayed or mismatched nonce means the answer wasn't produced for this
+ * challenge (cached, relayed or forged), so it weighs far more than a slow
+ * or missing answer: the weighted score is scaled by (1 - failed fraction)².
+ */
+function checkIntegrity(responses: ChallengeResponse[], totalAgents: number): NonNullable<SwarmVerification['integrity']> {
+  const replays = responses.filter(r => r.echoFailure === 'nonce_replay').length;
+  const mismatches = responses.filter(r => r.echoFailure && r.echoFailure !== 'nonce_replay').length;
+  const failedFraction = totalAgents > 0 ? (replays + mismatches) / totalAgents : 0;
+  
+  return { replays, mismatches, multiplier: Math.pow(1 - failedFraction, 2) };
+}
+
+// Cross-agent correlation: pairs at least this alike share a backend or operator
+const CLUSTER_THRESHOLD = 0.6;
+const LATENCY_SPAN = Math.log(4); // Latency ratio at which two agents stop looking alike
+const MIN_CLUSTERED_AGENTS = 3;
+
+/**
+ * How alike two agents' latencies and answers are over the challenges both
+ * answered, 0-1. Answers meant to differ (segments, nonce-bound) are
+ * compared by length only.
+ */
+function pairSimilarity(
+  a: Map<string, ChallengeResponse>,
+  b: Map<string, ChallengeResponse>,
+  distinct: Set<string>,
+  latency: LatencyFn
+): number {
+  let total = 0;
+  let shared = 0;
+  for (const [challengeId, ra] of a) {
+    const rb = b.get(challengeId);
+    if (!rb) continue;
+    
+    const latencyRatio = Math.max(1, latency(ra)) / Math.max(1, latency(rb));
+    const latencySimilarity = Math.max(0, 1 - Math.abs(Math.log(latencyRatio)) / LATENCY_SPAN);
+    const lengthSimilarity = Math.min(ra.response.length, rb.response.length)
+      / Math.max(ra.response.length, rb.response.length, 1);
+    const contentSimilarity = distinct.has(challengeId)
+      ? lengthSimilarity
+      : 0.7 * textSimilarity(ra.response, rb.response) + 0.3 * lengthSimilarity;
+    
+    total += (latencySimilarity + contentSimilarity) / 2;
+    shared++;
+  }
+  return shared > 0 ? total / shared : 0;
+}
+
+/**
+ * Cross-agent correlation (DESIGN.md §3): a pairwise similarity matrix over
+ * latency profiles and answer content, clustered. Each cluster is a likely
+ * backend or operator; undefined with fewer than three answering agents.
+ */
+function clusterSwarm(
+  agents: Agent[],
+  challenges: Challenge[],
+  responses: ChallengeResponse[],
+  latency: LatencyFn
+): SwarmVerification['clusters'] {
+  const distinct = new Set(challenges.filter(expectsDistinctAnswers).map(c => c.id));
+  const answering = agents
+    .map(agent => ({
+      agentId: agent.id,
+      answers: new Map(responses
+        .filter(r => r.agentId === agent.id && !r.error && r.response)
+        .map(r => [r.challengeId, r])),
+    }))
+    .filter(a => a.answers.size > 0);
+  if (answering.length < MIN_CLUSTERED_AGENTS) return undefined;
+  
+  const similarity = answering.map((a, i) => answering.map((b, j) =>
+    i === j ? 1 : pairSimilarity(a.answers, b.answers, distinct, latency)
+  ));
+  const clusters = clusterMatrix(similarity, CLUSTER_THRESHOLD).map(c => ({
+    agentIds: c.members.map(i => answering[i].agentId),
+    cohesion: c.cohesion,
+    medianLatencyMs: latencyStats(c.members.flatMap(i => [...answering[i].answers.values()].map(latency))).medianMs,
+  }));
+  
+  return {
+    agentIds: answering.map(a => a.agentId),
+    similarity: similarity.map(row => row.map(s => Math.round(s * 100) / 100)),
+    clusters,
+    backends: clusters.length,
+  };
+}
+
+/**
+ * Share of the answering agents in the largest cluster: one backend scores 100
+ */
+function scoreClusters(clusters: SwarmVerification['clusters']): number | undefined {
+  if (!clusters) return undefined;
+  return (clusters.clusters[0].agentIds.length / clusters.agentIds.length) * 100;
+}
+
+// Per-agent flags: how far from the swarm counts as an outlier, and what each costs
+const OUTLIER_SIGMA = 3;
+// σ floors: a handful of agents gives a MAD far tighter than normal network
+// and scheduling jitter, so σ is never under a quarter of the median or 100ms
+const MIN_SIGMA_SHARE = 0.25;
+const MIN_SIGMA_MS = 100;
+const DIVERGENCE_RATIO = 0.5;   // Similarity under half the swarm's typical similarity
+const MIN_CLUSTER_SIMILARITY = 0.3;
+const HUMAN_SCORE = 50;
+
+const AGENT_FLAG_PENALTIES: Record<AgentFlagKind, number> = {
+  no_answer: 50,           // Scaled by the share of missed samples
+  latency_outlier: 30,
+  divergent_answer: 25,
+  wrong_answer: 40,        // Scaled by the share of wrong answers
+  shared_wrong_answer: 20,
+  echo_failure: 60,        // Scaled by the share of samples
+  bad_reveal: 50,          // Scaled by the share of samples
+  human_rhythm: 40,
+  relay_rhythm: 30,
+  shared_key: 30,
+  minority_cluster: 20,
+  history_break: 30,
+};
+
+// Flags that point at a person rather than a broken or slow agent
+const HUMAN_SIGNS = new Set<AgentFlagKind>([
+  'latency_outlier',
+  'divergent_answer',
+  'minority_cluster',
+  'human_rhythm',
+  'relay_rhythm',
+]);
+
+/** Evidence already gathered by the swarm-level scorers */
+interface AgentEvidence {
+  rhythm?: IttFingerprint[];
+  correctness?: CorrectnessReport;
+  sharedKeys: { signer: string; agentIds: string[] }[];
+  clusters?: SwarmVerification['clusters'];
+  temporal?: TemporalDrift[];
+}
+
+function flag(kind: AgentFlagKind, detail: string, share: number = 1): AgentFlag {
+  return { kind, detail, penalty: AGENT_FLAG_PENALTIES[kind] * share };
+}
+
+/**
+ * Each agent's mean answer similarity to the rest of the swarm, over the
+ * challenges where agents should agree (at least three answers)
+ */
+function agentSimilarities(challenges: Challenge[], responses: ChallengeResponse[]): Map<string, number> {
+  const totals = new Map<string, { sum: number; count: number }>();
+  
+  for (const challenge of challenges) {
+    if (expectsDistinctAnswers(challenge)) continue;
+    const answered = responses.filter(r => r.challengeId === challenge.id && !r.error && r.response);
+    if (answered.length < 3) continue;
+    
+    for (const r of answered) {
+      const others = answered.filter(o => o !== r);
+      const similarity = others.reduce((sum, o) => sum + textSimilarity(r.response, o.response), 0) / others.length;
+      const total = totals.get(r.agentId) ?? { sum: 0, count: 0 };
+      totals.set(r.agentId, { sum: total.sum + similarity, count: total.count + 1 });
+    }
+  }
+  
+  return new Map([...totals].map(([agentId, t]) => [agentId, t.sum / t.count]));
+}
+
+/**
+ * Per-agent scores and flags, to show which agents dragged a verdict down.
+ * Latency is each agent's median against the swarm median, in robust σ
+ * (1.4826 × MAD over agents, floored); answers are compared with the rest of the
+ * swarm on the same challenge. An agent is likely human-operated when its
+ * score is low and its flags include a human sign, or its token rhythm
+ * looks typed.
+ */
+function scoreAgents(
+  agents: Agent[],
+  challenges: Challenge[],
+  responses: ChallengeResponse[],
+  latency: LatencyFn,
+  evidence: AgentEvidence
+): AgentScore[] {
+  const medians = new Map(agents.map(agent => {
+    const own = responses.filter(r => r.agentId === agent.id && !r.error).map(latency);
+    return [agent.id, own.length > 0 ? latencyStats(own).medianMs : undefined];
+  }));
+  const answeredMedians = [...medians.values()].filter((m): m is number => m !== undefined);
+  const swarmMedian = latencyStats(answeredMedians).medianMs;
+  const mad = latencyStats(answeredMedians.map(m => Math.abs(m - swarmMedian))).medianMs;
+  const sigma = Math.max(1.4826 * mad, MIN_SIGMA_SHARE * swarmMedian, MIN_SIGMA_MS);
+  
+  const similarities = agentSimilarities(challenges, responses);
+  const typicalSimilarity = latencyStats([...similarities.values()]).medianMs;
+  
+  return agents.map(agent => {
+    const own = responses.filter(r => r.agentId === agent.id);
+    const samples = Math.max(own.length, challenges.length);
+    const answered = own.filter(r => !r.error).length;
+    const flags: AgentFlag[] = [];
+    
+    const echoed = own.filter(r => r.echoFailure);
+    if (echoed.length > 0) {
+      const replays = echoed.filter(r => r.echoFailure === 'nonce_replay').length;
+      const detail = replays > 0 ? `${replays} replayed nonce(s)` : `echo mismatch (${echoed[0].echoFailure})`;
+      flags.push(flag('echo_failure', detail, echoed.length / samples));
+    }
+    const badReveals = own.filter(r => r.failure?.kind === 'bad_reveal');
+    if (badReveals.length > 0) {
+      flags.push(flag('bad_reveal', `${badReveals.length} reveal(s) didn't open the commitment`, badReveals.length / samples));
+    }
+    const failed = own.filter(r => r.error && !r.echoFailure && r.failure?.kind !== 'bad_reveal');
+    const missed = samples - answered - echoed.length - badReveals.length;
+    if (missed > 0) {
+      const kinds = [...new Set(failed.map(r => r.failure?.kind ?? 'error'))];
+      const detail = `no answer to ${missed}/${samples}${kinds.length > 0 ? ` (${kinds.join(', ')})` : ''}`;
+      flags.push(flag('no_answer', detail, missed / samples));
+    }
+    
+    const median = medians.get(agent.id);
+    const latencySigma = median !== undefined && answeredMedians.length >= 3 && sigma > 0
+      ? (median - swarmMedian) / sigma
+      : undefined;
+    if (latencySigma !== undefined && latencySigma > OUTLIER_SIGMA) {
+      const detail = `latency ${latencySigma.toFixed(1)}σ above swarm median (${median!.toFixed(0)}ms vs ${swarmMedian.toFixed(0)}ms)`;
+      flags.push(flag('latency_outlier', detail));
+    }
+    
+    const similarity = similarities.get(agent.id);
+    const clustered = typicalSimilarity >= MIN_CLUSTER_SIMILARITY;
+    if (similarity !== undefined && clustered && similarity < typicalSimilarity * DIVERGENCE_RATIO) {
+      const detail = `answer diverges from cluster (similarity ${similarity.toFixed(2)} vs swarm ${typicalSimilarity.toFixed(2)})`;
+      flags.push(flag('divergent_answer', detail));
+    }
+    
+    const correctness = evidence.correctness?.agents.find(c => c.agentId === agent.id);
+    if (correctness && correctness.accuracy < 1) {
+      const wrong = correctness.checked - correctness.correct;
+      flags.push(flag('wrong_answer', `${wrong}/${correctness.checked} answers wrong`, 1 - correctness.accuracy));
+    }
+    const sharedWrong = evidence.correctness?.sharedWrong.find(s => s.agentIds.includes(agent.id));
+    if (sharedWrong) {
+      const others = sharedWrong.agentIds.filter(id => id !== agent.id);
+      flags.push(flag('shared_wrong_answer', `same wrong answer as ${others.join(', ')}`));
+    }
+    
+    const rhythm = evidence.rhythm?.filter(f => f.agentId === agent.id) ?? [];
+    const typed = rhythm.find(f => f.flags.includes('human_typing'));
+    if (typed) {
+      const detail = `typing-like token rhythm (mean ITT ${typed.meanMs.toFixed(0)}ms, CV ${typed.cv.toFixed(2)})`;
+      flags.push(flag('human_rhythm', detail));
+    }
+    const relayed = rhythm.find(f => f.flags.includes('copy_paste_relay'));
+    if (relayed) {
+      flags.push(flag('relay_rhythm', `copy-paste relay token rhythm (burstiness ${relayed.burstiness.toFixed(2)})`));
+    }
+    
+    const shared = evidence.sharedKeys.find(k => k.agentIds.includes(agent.id));
+    if (shared) {
+      const others = [...new Set(shared.agentIds.filter(id => id !== agent.id))];
+      flags.push(flag('shared_key', `shares signing key ${shared.signer.slice(0, 10)}… with ${others.join(', ')}`));
+    }
+    
+    const main = evidence.clusters?.clusters[0];
+    const cluster = evidence.clusters?.clusters.find(c => c.agentIds.includes(agent.id));
+    if (main && cluster && cluster.agentIds.length < main.agentIds.length) {
+      const detail = `in a separate cluster of ${cluster.agentIds.length} (main cluster: ${main.agentIds.length} agents)`;
+      flags.push(flag('minority_cluster', detail));
+    }
+    
+    const drift = evidence.temporal?.find(d => d.agentId === agent.id);
+    if (drift?.break) {
+      const detail = `history breaks at round ${drift.break.round} (latency ×${drift.break.latencyRatio.toFixed(1)})`;
+      flags.push(flag('history_break', detail));
+    }
+    
+    const score = Math.max(0, 100 - flags.reduce((sum, f) => sum + f.penalty, 0));
+    return {
+      agentId: agent.id,
+      score,
+      answered,
+      samples,
+      medianLatencyMs: median,
+      latencySigma,
+      similarity,
+      flags,
+      likelyHuman: flags.some(f => f.kind === 'human_rhythm')
+        || (score < HUMAN_SCORE && flags.some(f => HUMAN_SIGNS.has(f.kind))),
+    };
+  });
 }
 
 /**
  * Determine verdict based on overall score
  */
-function getVerdict(score: number): 'genuine' | 'suspicious' | 'likely_fake' {
-  if (score >= 70) return 'genuine';
-  if (score >= 40) return 'suspicious';
+export function getVerdict(
+  score: number,
+  thresholds: VerdictThresholds = DEFAULT_THRESHOLDS
+): Exclude<Verdict, 'insufficient_data'> {
+  if (score >= thresholds.genuine) return 'genuine';
+  if (score >= thresholds.likelyFake) return 'suspicious';
   return 'likely_fake';
 }
 
+/**
+ * Why the evidence can't support a verdict, if it can't: too few agents
+ * answered, or the overall score's interval reaches from likely fake to genuine
+ */
+export function insufficientEvidence(
+  answeringAgents: number,
+  interval: ScoreInterval | undefined,
+  thresholds: VerdictThresholds = DEFAULT_THRESHOLDS
+): string | undefined {
+  if (answeringAgents < MIN_ANSWERING_AGENTS) {
+    return `${answeringAgents} agent${answeringAgents === 1 ? '' : 's'} answered, ${MIN_ANSWERING_AGENTS} needed`;
+  }
+  if (interval && interval.low < thresholds.likelyFake && interval.high >= thresholds.genuine) {
+    return `overall score could be anywhere from ${Math.round(interval.low)} to ${Math.round(interval.high)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Confidence level from bootstrap agreement; always low without enough evidence
+ */
+export function confidenceLevel(agreement: number, insufficient?: string): 'high' | 'medium' | 'low' {
+  if (insufficient) return 'low';
+  return agreement >= HIGH_CONFIDENCE ? 'high' : agreement >= MEDIUM_CONFIDENCE ? 'medium' : 'low';
+}
+
+/**
+ * Distinct agents with at least one answer
+ */
+export function answeringAgents(responses: ChallengeResponse[]): Set<string> {
+  return new Set(responses.filter(r => !r.error).map(r => r.agentId));
+}
+
+/**
+ * Add bootstrap intervals and a confidence level to a verification. Each
+ * resample draws agents with replacement and is scored like the real swarm;
+ * the spread of its scores shows how much they rest on which agents were
+ * asked. Small samples (where scorers fall back to a neutral 50) show up as
+ * wide intervals, and evidence too thin for any verdict as 'insufficient_data'.
+ */
+function withConfidence(
+  verification: SwarmVerification,
+  options: AnalysisOptions,
+  rescore: (sample: AgentResample) => SwarmVerification
+): SwarmVerification {
+  const thresholds = verification.scoring?.thresholds ?? DEFAULT_THRESHOLDS;
+  const answering = answeringAgents(verification.responses).size;
+  const samples = options.bootstrapSamples ?? DEFAULT_BOOTSTRAP_SAMPLES;
+  
+  if (samples <= 0) {
+    const insufficient = insufficientEvidence(answering, undefined, thresholds);
+    return insufficient ? { ...verification, verdict: 'insufficient_data' } : verification;
+  }
+  
+  const random = seededRandom(bootstrapSeed(verification.responses));
+  const replicates = Array.from({ length: samples }, () => rescore(resampleAgents(verification.agents, random)));
+  const interval = (values: (number | undefined)[]): ScoreInterval | undefined => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? percentileInterval(defined, INTERVAL_LEVEL) : undefined;
+  };
+  
+  const scores: Record<string, ScoreInterval> = {};
+  const named: [string, number | undefined][] = [
+    ...Object.entries(verification.scores),
+    ...Object.entries(verification.customScores ?? {}),
+  ];
+  for (const [name, score] of named) {
+    if (score === undefined) continue;
+    const bounds = interval(replicates.map(r => r.customScores?.[name] ?? r.scores[name as keyof AnalysisScores]));
+    if (bounds) scores[name] = bounds;
+  }
+  const overall = interval(replicates.map(r => r.overallScore))!;
+  
+  const verdict = getVerdict(verification.overallScore, thresholds);
+  const agreement = replicates.filter(r => getVerdict(r.overallScore, thresholds) === verdict).length / samples;
+  const insufficient = insufficientEvidence(answering, overall, thresholds);
+  
+  return {
+    ...verification,
+    intervals: { level: INTERVAL_LEVEL, samples, scores, overall },
+    confidence: { level: confidenceLevel(agreement, insufficient), agreement, insufficient },
+    verdict: insufficient ? 'insufficient_data' : verification.verdict,
+  };
+}
+
 /**
  * Generate verification ID
  */
@@ -170,48 +967,431 @@ function generateVerificationId(): string {
   return `sv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/**
+ * Resolve which timing component each latency scorer uses
+ */
+function timingAccessors(options: AnalysisOptions) {
+  const timingComponents = { ...DEFAULT_TIMING_COMPONENTS, ...options.timingComponents };
+  const rtt = new Map(options.calibration?.map(c => [c.agentId, c.rttMs]));
+  const latencyFor = (scorer: TimingScorer): LatencyFn =>
+    r => latencyOf(r, timingComponents[scorer], rtt.get(r.agentId));
+  
+  return { timingComponents, latencyFor };
+}
+
+/**
+ * Add how much of each agent's latency was network (mean over its answers)
+ */
+function withNetworkShare(
+  calibration: NetworkCalibration[] | undefined,
+  responses: ChallengeResponse[]
+): NetworkCalibration[] | undefined {
+  return calibration?.map(c => {
+    const answerMs = responses
+      .filter(r => r.agentId === c.agentId && !r.error)
+      .map(r => latencyOf(r, 'response'));
+    const avgMs = answerMs.length > 0 ? answerMs.reduce((a, b) => a + b, 0) / answerMs.length : 0;
+    return c.rttMs !== undefined && avgMs > 0
+      ? { ...c, networkShare: Math.min(1, c.rttMs / avgMs) }
+      : c;
+  });
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+/**
+ * Summarize a latency distribution
+ */
+function latencyStats(latencies: number[]): LatencyStats {
+  if (latencies.length === 0) {
+    return { samples: 0, meanMs: 0, medianMs: 0, p90Ms: 0, p99Ms: 0, stdDevMs: 0, cv: 0 };
+  }
+  
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const meanMs = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  const stdDevMs = Math.sqrt(sorted.reduce((sum, l) => sum + Math.pow(l - meanMs, 2), 0) / sorted.length);
+  
+  return {
+    samples: sorted.length,
+    meanMs,
+    medianMs: percentile(sorted, 0.5),
+    p90Ms: percentile(sorted, 0.9),
+    p99Ms: percentile(sorted, 0.99),
+    stdDevMs,
+    cv: meanMs > 0 ? stdDevMs / meanMs : 0,
+  };
+}
+
+/**
+ * Average per-round scores, skipping rounds where the score didn't apply
+ */
+function meanRoundScore(rounds: SwarmVerification[], key: keyof AnalysisScores): number | undefined {
+  const values = rounds.map(v => v.scores[key]).filter((s): s is number => s !== undefined);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+}
+
+/**
+ * Per-agent correctness over all rounds of a session
+ */
+function mergeCorrectness(rounds: SwarmVerification[]): CorrectnessReport | undefined {
+  const reports = rounds.map(v => v.correctness).filter((c): c is CorrectnessReport => c !== undefined);
+  if (reports.length === 0) return undefined;
+  
+  const byAgent = new Map<string, CorrectnessResult>();
+  for (const c of reports.flatMap(r => r.agents)) {
+    const total = byAgent.get(c.agentId) ?? { agentId: c.agentId, checked: 0, correct: 0, accuracy: 0 };
+    total.checked += c.checked;
+    total.correct += c.correct;
+    if (c.fresh !== undefined) total.fresh = (total.fresh ?? 0) + c.fresh;
+    total.accuracy = total.correct / total.checked;
+    byAgent.set(c.agentId, total);
+  }
+  
+  const agents = [...byAgent.values()];
+  return {
+    agents,
+    accuracy: agents.reduce((sum, c) => sum + c.accuracy, 0) / agents.length,
+    sharedWrong: reports.flatMap(r => r.sharedWrong),
+  };
+}
+
+// A change point needs a latency shift this many pooled std devs wide (and
+// at least 1.5x), or answers this much less alike across it than within
+const BREAK_LATENCY_EFFECT = 3;
+const BREAK_LATENCY_RATIO = 1.5;
+const BREAK_ANSWER_SHIFT = 0.5;
+
+interface TemporalSample {
+  round: number;
+  latencyMs: number;
+  answer: string;
+  passed?: boolean; // Against the round's answer key, if it has one
+}
+
+/**
+ * How alike two answers to the same question are: both passing the answer
+ * key counts as the same answer (paraphrased prompts, free-form wording);
+ * otherwise token overlap
+ */
+function sampleSimilarity(a: TemporalSample, b: TemporalSample): number {
+  if (a.passed && b.passed) return 1;
+  const ta = new Set(normalizeAnswer(a.answer).split(' ').filter(Boolean));
+  const tb = new Set(normalizeAnswer(b.answer).split(' ').filter(Boolean));
+  const union = new Set([...ta, ...tb]).size;
+  return union > 0 ? [...ta].filter(t => tb.has(t)).length / union : 1;
+}
+
+/**
+ * Mean similarity over pairs (within one list, or across two)
+ */
+function meanSimilarity(a: TemporalSample[], b?: TemporalSample[]): number {
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = b ? 0 : i + 1; j < (b ?? a).length; j++) {
+      total += sampleSimilarity(a[i], (b ?? a)[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? total / pairs : 1;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / values.length);
+}
+
+/**
+ * Find the strongest change point in one agent's history, if any.
+ * Every split with at least two samples on each side is tried; a split
+ * counts when latency jumps (in log space, against the spread within each
+ * side) or when answers before and after stop resembling each other.
+ */
+function findBreak(history: TemporalSample[]): TemporalDrift['break'] {
+  let best: { strength: number; found: NonNullable<TemporalDrift['break']> } | undefined;
+  
+  for (let k = 2; k <= history.length - 2; k++) {
+    const before = history.slice(0, k);
+    const after = history.slice(k);
+    const logBefore = before.map(s => Math.log(Math.max(1, s.latencyMs)));
+    const logAfter = after.map(s => Math.log(Math.max(1, s.latencyMs)));
+    
+    const spread = Math.max(0.1, Math.sqrt((Math.pow(stdDev(logBefore), 2) + Math.pow(stdDev(logAfter), 2)) / 2));
+    const effect = Math.abs(mean(logAfter) - mean(logBefore)) / spread;
+    const latencyRatio = latencyStats(after.map(s => s.latencyMs)).medianMs
+      / Math.max(1, latencyStats(before.map(s => s.latencyMs)).medianMs);
+    const within = (meanSimilarity(before) + meanSimilarity(after)) / 2;
+    const answerShift = Math.max(0, within - meanSimilarity(before, after));
+    
+    const latencyBreak = effect >= BREAK_LATENCY_EFFECT && Math.abs(Math.log(latencyRatio)) >= Math.log(BREAK_LATENCY_RATIO);
+    if (!latencyBreak && answerShift < BREAK_ANSWER_SHIFT) continue;
+    
+    const strength = effect / BREAK_LATENCY_EFFECT + answerShift / BREAK_ANSWER_SHIFT;
+    if (!best || strength > best.strength) {
+      best = { strength, found: { round: history[k].round, latencyRatio, answerShift } };
+    }
+  }
+  
+  return best?.found;
+}
+
+/**
+ * Score temporal self-consistency (consistency sessions)
+ * Each agent is compared with itself over time, not with the swarm: an
+ * automated agent answers the same question the same way at similar speed
+ * whenever it's asked. A human operator swapping in and out, or a rotation
+ * between backends, shows up as a break in the agent's own history, which
+ * halves its score. Agents with fewer than two answers aren't scored.
+ */
+function scoreTemporalDrift(
+  agents: Agent[],
+  rounds: SessionRound[],
+  latency: LatencyFn
+): { score?: number; drift: TemporalDrift[] } {
+  const drift: TemporalDrift[] = [];
+  
+  for (const agent of agents) {
+    const history: TemporalSample[] = [];
+    for (const r of rounds) {
+      const response = r.responses.find(x => x.agentId === agent.id && !x.error);
+      if (!response) continue;
+      const { validator, expectedAnswer } = r.challenge;
+      history.push({
+        round: r.round,
+        latencyMs: latency(response),
+        answer: response.response,
+        passed: validator && expectedAnswer !== undefined
+          ? checkAnswer(validator, response.response, expectedAnswer, response.nonce)
+          : undefined,
+      });
+    }
+    if (history.length < 2) continue;
+    
+    const answerStability = meanSimilarity(history);
+    const latencyDrift = stdDev(history.map(s => Math.log(Math.max(1, s.latencyMs))));
+    const found = findBreak(history);
+    const score = (answerStability * 50 + Math.max(0, 1 - latencyDrift) * 50) * (found ? 0.5 : 1);
+    
+    drift.push({ agentId: agent.id, samples: history.length, answerStability, latencyDrift, break: found, score });
+  }
+  
+  if (drift.length === 0) return { drift };
+  return { score: mean(drift.map(d => d.score)), drift };
+}
+
+/**
+ * Analyze a multi-round session.
+ * Latency scorers see every sample from every round. For variance and tails,
+ * each sample is first divided by its round's median, so a harder prompt in
+ * one round doesn't look like jitter. Content-level scores are averaged over
+ * rounds, since answers to different prompts can't be compared.
+ */
+export function analyzeSession(
+  agents: Agent[],
+  rounds: SessionRound[],
+  options: AnalysisOptions = {}
+): SwarmVerification {
+  const { timingComponents, latencyFor } = timingAccessors(options);
+  const scoring = resolveScoring(options.scoring);
+  const perRound = rounds.map(r => analyzeSwarm(agents, r.challenge, r.responses, { ...options, bootstrapSamples: 0 }));
+  const responses = rounds.flatMap(r => r.responses);
+  const successful = responses.filter(r => !r.error);
+  const expected = agents.length * rounds.length;
+  // Consistency sessions ask one prompt family throughout
+  const temporal = rounds.length > 1 && rounds.every(r => r.challenge.family !== undefined)
+    ? scoreTemporalDrift(agents, rounds, latencyFor('responseTime'))
+    : undefined;
+  const clusters = clusterSwarm(agents, rounds.map(r => r.challenge), responses, latencyFor('responseTime'));
+  
+  // Normalize each sample by its round's median latency, rescaled to the pooled median
+  const normalized = (scorer: TimingScorer): LatencyFn => {
+    const latency = latencyFor(scorer);
+    const roundMedians = new Map(rounds.map(r => [
+      r.challenge.id,
+      latencyStats(r.responses.filter(x => !x.error).map(latency)).medianMs,
+    ]));
+    const pooledMedian = latencyStats(successful.map(latency)).medianMs;
+    return r => {
+      const median = roundMedians.get(r.challengeId);
+      return median ? (latency(r) / median) * pooledMedian : latency(r);
+    };
+  };
+  
+  const scores: AnalysisScores = {
+    responseTime: scoreResponseTime(responses, latencyFor('responseTime')),
+    timeVariance: scoreTimeVariance(responses, normalized('timeVariance')),
+    tailBehavior: scoreTailBehavior(responses, normalized('tailBehavior')),
+    consistency: meanRoundScore(perRound, 'consistency') ?? 50,
+    participation: scoreParticipation(responses, expected),
+    tokenRhythm: meanRoundScore(perRound, 'tokenRhythm'),
+    batch: meanRoundScore(perRound, 'batch'),
+    correctness: meanRoundScore(perRound, 'correctness'),
+    temporal: temporal?.score,
+    clusters: scoreClusters(clusters),
+    content: meanRoundScore(perRound, 'content') ?? 0,
+  };
+  
+  const { scores: customScores, errors: scorerErrors } = runCustomScorers(scoring, {
+    agents,
+    challenges: rounds.map(r => r.challenge),
+    responses,
+    scores,
+  });
+  const integrity = checkIntegrity(responses, expected);
+  const overallScore = combineScores(scoring, { ...scores, ...customScores }) * integrity.multiplier;
+  
+  const latency = latencyFor('responseTime');
+  const sharedKeys = findSharedKeys(agents, responses);
+  const rhythm = perRound.flatMap(v => v.rhythm ?? []);
+  const correctness = mergeCorrectness(perRound);
+  
+  const verification: SwarmVerification = {
+    id: generateVerificationId(),
+    challengeId: rounds[0]?.challenge.id ?? '',
+    agents,
+    responses,
+    scores,
+    customScores,
+    scorerErrors,
+    scoring: scoringRecord(scoring),
+    timingComponents,
+    calibration: withNetworkShare(options.calibration, responses),
+    agentScores: scoreAgents(agents, rounds.map(r => r.challenge), responses, latency, {
+      rhythm,
+      correctness,
+      sharedKeys,
+      clusters,
+      temporal: temporal?.drift,
+    }),
+    clusters,
+    rhythm,
+    batch: perRound.flatMap(v => v.batch ?? []),
+    correctness,
+    identity: {
+      signed: responses.filter(r => r.signature).length,
+      identityBound: responses.filter(r => r.signature?.identityBound).length,
+      sharedKeys,
+    },
+    session: {
+      rounds: rounds.map((r, i) => ({ ...r, scores: perRound[i].scores, overallScore: perRound[i].overallScore })),
+      windowMs: temporal && rounds.length > 0 ? rounds[rounds.length - 1].startedAt - rounds[0].startedAt : undefined,
+      temporal: temporal?.drift,
+      agentStats: agents.map(agent => {
+        const own = successful.filter(r => r.agentId === agent.id);
+        return { agentId: agent.id, responded: own.length, ...latencyStats(own.map(latency)) };
+      }),
+      swarmStats: latencyStats(successful.map(latency)),
+    },
+    failures: countFailures(responses),
+    commitReveal: summarizeCommits(responses),
+    integrity,
+    overallScore: Math.round(overallScore),
+    verdict: getVerdict(overallScore, scoring.thresholds),
+    createdAt: Date.now(),
+  };
+  
+  return withConfidence(verification, options, sample => analyzeSession(
+    sample.agents,
+    rounds.map(r => ({
+      ...r,
+      challenge: resampleChallenge(r.challenge, sample),
+      responses: resampleResponses(r.responses, sample),
+    })),
+    { ...options, calibration: resampleCalibration(options.calibration, sample), bootstrapSamples: 0 }
+  ));
+}
+
 /**
  * Analyze swarm responses and generate verification result
  */
 export function analyzeSwarm(
   agents: Agent[],
   challenge: Challenge,
-  responses: ChallengeResponse[]
+  responses: ChallengeResponse[],
+  options: AnalysisOptions = {}
 ): SwarmVerification {
+  const { timingComponents, latencyFor } = timingAccessors(options);
+  const scoring = resolveScoring(options.scoring);
+  
+  const rhythm = scoreTokenRhythm(responses);
+  const batch = scoreBatch(challenge, responses);
+  const correctness = scoreCorrectness(challenge, responses, batch.results);
+  const sharedKeys = findSharedKeys(agents, responses);
+  const sharedSigners = new Set(sharedKeys.map(k => k.signer));
+  const clusters = clusterSwarm(agents, [challenge], responses, latencyFor('responseTime'));
+  
   const scores: AnalysisScores = {
-    responseTime: scoreResponseTime(responses),
-    timeVariance: scoreTimeVariance(responses),
-    tailBehavior: scoreTailBehavior(responses),
-    consistency: scoreConsistency(responses),
+    responseTime: scoreResponseTime(responses, latencyFor('responseTime')),
+    timeVariance: scoreTimeVariance(responses, latencyFor('timeVariance')),
+    tailBehavior: scoreTailBehavior(responses, latencyFor('tailBehavior')),
+    consistency: scoreConsistency(responses, expectsDistinctAnswers(challenge)),
     participation: scoreParticipation(responses, agents.length),
+    tokenRhythm: rhythm.score,
+    batch: batch.score,
+    correctness: correctness.score,
+    clusters: scoreClusters(clusters),
+    content: scoreContent(challenge, responses, batch.results, correctness.report?.agents ?? [], sharedSigners),
   };
   
-  // Weighted average (updated weights to include tail behavior)
-  const weights = { 
-    responseTime: 0.20, 
-    timeVariance: 0.20, 
-    tailBehavior: 0.15,  // NEW
-    consistency: 0.25, 
-    participation: 0.20 
-  };
-  
-  const overallScore = 
-    scores.responseTime * weights.responseTime +
-    scores.timeVariance * weights.timeVariance +
-    scores.tailBehavior * weights.tailBehavior +
-    scores.consistency * weights.consistency +
-    scores.participation * weights.participation;
+  const { scores: customScores, errors: scorerErrors } = runCustomScorers(scoring, {
+    agents,
+    challenges: [challenge],
+    responses,
+    scores,
+  });
+  const integrity = checkIntegrity(responses, agents.length);
+  const overallScore = combineScores(scoring, { ...scores, ...customScores }) * integrity.multiplier;
   
-  return {
+  const verification: SwarmVerification = {
     id: generateVerificationId(),
     challengeId: challenge.id,
     agents,
     responses,
     scores,
+    customScores,
+    scorerErrors,
+    scoring: scoringRecord(scoring),
+    timingComponents,
+    calibration: withNetworkShare(options.calibration, responses),
+    agentScores: scoreAgents(agents, [challenge], responses, latencyFor('responseTime'), {
+      rhythm: rhythm.fingerprints,
+      correctness: correctness.report,
+      sharedKeys,
+      clusters,
+    }),
+    clusters,
+    rhythm: rhythm.fingerprints.length > 0 ? rhythm.fingerprints : undefined,
+    batch: batch.results.length > 0 ? batch.results : undefined,
+    correctness: correctness.report,
+    distributed: reassembleDistributed(challenge, responses),
+    identity: {
+      signed: responses.filter(r => r.signature).length,
+      identityBound: responses.filter(r => r.signature?.identityBound).length,
+      sharedKeys,
+    },
+    failures: countFailures(responses),
+    commitReveal: summarizeCommits(responses),
+    integrity,
     overallScore: Math.round(overallScore),
-    verdict: getVerdict(overallScore),
+    verdict: getVerdict(overallScore, scoring.thresholds),
     createdAt: Date.now(),
   };
+  
+  return withConfidence(verification, options, sample => analyzeSwarm(
+    sample.agents,
+    resampleChallenge(challenge, sample),
+    resampleResponses(responses, sample),
+    { ...options, calibration: resampleCalibration(options.calibration, sample), bootstrapSamples: 0 }
+  ));
 }
 
 /**
@@ -223,12 +1403,145 @@ export function printVerificationSummary(verification: SwarmVerification): void
   console.log(`ID: ${verification.id}`);
   console.log(`Agents: ${verification.agents.length}`);
   console.log(`Responded: ${verification.responses.filter(r => !r.error).length}`);
-  console.log(`\nScores:`);
-  console.log(`  Response Time: ${verification.scores.responseTime.toFixed(1)}`);
-  console.log(`  Time Variance: ${verification.scores.timeVariance.toFixed(1)}`);
-  console.log(`  Tail Behavior: ${(verification.scores as any).tailBehavior?.toFixed(1) ?? 'N/A'}`);
-  console.log(`  Consistency:   ${verification.scores.consistency.toFixed(1)}`);
-  console.log(`  Participation: ${verification.scores.participation.toFixed(1)}`);
-  console.log(`\n📊 Overall Score: ${verification.overallScore}`);
+  const intervals = verification.intervals;
+  const band = (name: string) => {
+    const interval = intervals?.scores[name];
+    return interval ? `  [${interval.low.toFixed(0)}-${interval.high.toFixed(0)}]` : '';
+  };
+  console.log(`\nScores:${intervals ? ` (${(intervals.level * 100).toFixed(0)}% intervals over ${intervals.samples} agent resamples)` : ''}`);
+  console.log(`  Response Time: ${verification.scores.responseTime.toFixed(1)}${band('responseTime')}`);
+  console.log(`  Time Variance: ${verification.scores.timeVariance.toFixed(1)}${band('timeVariance')}`);
+  console.log(`  Tail Behavior: ${verification.scores.tailBehavior.toFixed(1)}${band('tailBehavior')}`);
+  console.log(`  Consistency:   ${verification.scores.consistency.toFixed(1)}${band('consistency')}`);
+  console.log(`  Participation: ${verification.scores.participation.toFixed(1)}${band('participation')}`);
+  console.log(`  Content:       ${verification.scores.content.toFixed(1)}${band('content')}`);
+  if (verification.scores.tokenRhythm !== undefined) {
+    console.log(`  Token Rhythm:  ${verification.scores.tokenRhythm.toFixed(1)}${band('tokenRhythm')}`);
+  }
+  if (verification.scores.batch !== undefined) {
+    console.log(`  Batch:         ${verification.scores.batch.toFixed(1)}${band('batch')}`);
+  }
+  if (verification.scores.clusters !== undefined) {
+    console.log(`  Clusters:      ${verification.scores.clusters.toFixed(1)}${band('clusters')}`);
+  }
+  for (const [name, error] of Object.entries(verification.scorerErrors ?? {})) {
+    console.warn(`  ⚠️  Scorer ${name} failed: ${error}`);
+  }
+  for (const [name, score] of Object.entries(verification.customScores ?? {})) {
+    console.log(`  ${`${name}:`.padEnd(15)}${score.toFixed(1)}${band(name)}`);
+  }
+  const distributed = verification.distributed;
+  if (distributed) {
+    const status = distributed.correct ? '✅ correct'
+      : distributed.answer === undefined ? 'incomplete' : `❌ wrong (expected ${distributed.expected.slice(0, 40)})`;
+    console.log(`  🧩 Distributed: ${distributed.correctSegments}/${distributed.segments} segments correct, reassembled answer ${status}`);
+  }
+  const correctness = verification.correctness;
+  if (correctness && verification.scores.correctness !== undefined) {
+    console.log(`  Correctness:   ${verification.scores.correctness.toFixed(1)}${band('correctness')}`);
+    for (const c of correctness.agents.filter(c => c.accuracy < 1)) {
+      console.log(`    ${c.agentId}: ${c.correct}/${c.checked} correct`);
+    }
+    const fresh = correctness.agents.reduce((sum, c) => sum + (c.fresh ?? 0), 0);
+    if (fresh > 0) {
+      console.log(`  ⏱️  ${fresh} correct answer${fresh === 1 ? '' : 's'} derived from nonces issued for this challenge (not precomputable)`);
+    }
+    for (const shared of correctness.sharedWrong) {
+      console.log(`  ⚠️  Same wrong answer "${shared.answer.slice(0, 40)}": ${shared.agentIds.join(', ')}`);
+    }
+  }
+  for (const b of verification.batch ?? []) {
+    const accuracy = b.accuracy !== undefined ? `, ${(b.accuracy * 100).toFixed(0)}% correct` : '';
+    console.log(`    ${b.agentId}: ${b.answeredCount} answers, ${b.msPerAnswer.toFixed(0)}ms/answer${accuracy}`);
+  }
+  const shares = verification.calibration?.filter(c => c.networkShare !== undefined) ?? [];
+  if (shares.length > 0) {
+    const rtts = shares.map(c => c.rttMs!);
+    const avgShare = shares.reduce((sum, c) => sum + c.networkShare!, 0) / shares.length;
+    console.log(`  🌐 Network RTT ${Math.min(...rtts).toFixed(1)}-${Math.max(...rtts).toFixed(1)}ms (~${(avgShare * 100).toFixed(0)}% of latency, adjusted out)`);
+  }
+  const identity = verification.identity;
+  if (identity && identity.signed > 0) {
+    console.log(`  🔏 Signed: ${identity.signed} (${identity.identityBound} bound to ERC-8004)`);
+  }
+  for (const shared of identity?.sharedKeys ?? []) {
+    console.log(`  ⚠️  Shared signing key ${shared.signer.slice(0, 10)}…: ${shared.agentIds.join(', ')}`);
+  }
+  const failures = Object.entries(verification.failures ?? {});
+  if (failures.length > 0) {
+    console.log(`  ❌ Failures: ${failures.map(([kind, count]) => `${kind}×${count}`).join(', ')}`);
+  }
+  const commits = verification.commitReveal;
+  if (commits) {
+    console.log(`  🔐 Commit-reveal: ${commits.committed} committed, ${commits.revealed} revealed${commits.badReveals > 0 ? `, ${commits.badReveals} bad reveals` : ''}`);
+  }
+  const integrity = verification.integrity;
+  if (integrity && integrity.replays + integrity.mismatches > 0) {
+    console.log(`  ⛔ Echo failures: ${integrity.replays} replayed, ${integrity.mismatches} mismatched (score ×${integrity.multiplier.toFixed(2)})`);
+  }
+  const clusters = verification.clusters;
+  if (clusters && clusters.backends === 1) {
+    console.log(`  🧬 One cluster: all ${clusters.agentIds.length} answering agents look like one backend (cohesion ${clusters.clusters[0].cohesion.toFixed(2)})`);
+  } else if (clusters) {
+    console.log(`  🧬 ${clusters.backends} clusters: the swarm looks like ${clusters.backends} distinct backends or operators`);
+    for (const c of clusters.clusters) {
+      console.log(`    ${c.agentIds.join(', ')} (median ${c.medianLatencyMs.toFixed(0)}ms, cohesion ${c.cohesion.toFixed(2)})`);
+    }
+  }
+  const flagged = verification.rhythm?.filter(f => f.flags.length > 0) ?? [];
+  for (const f of flagged) {
+    console.log(`  ⚠️  ${f.agentId}: ${f.flags.join(', ')} (mean ITT ${f.meanMs.toFixed(0)}ms, CV ${f.cv.toFixed(2)})`);
+  }
+  const session = verification.session;
+  if (session) {
+    const swarm = session.swarmStats;
+    console.log(`\nSession: ${session.rounds.length} rounds, ${swarm.samples} samples`);
+    console.log(`  Swarm: median ${swarm.medianMs.toFixed(0)}ms, p90 ${swarm.p90Ms.toFixed(0)}ms, p99 ${swarm.p99Ms.toFixed(0)}ms, CV ${swarm.cv.toFixed(2)}`);
+    for (const a of session.agentStats) {
+      console.log(`  ${a.agentId}: ${a.responded}/${session.rounds.length} answered, median ${a.medianMs.toFixed(0)}ms, p90 ${a.p90Ms.toFixed(0)}ms`);
+    }
+    if (session.temporal && verification.scores.temporal !== undefined) {
+      console.log(`  🕰️  Temporal: ${verification.scores.temporal.toFixed(1)} over ${((session.windowMs ?? 0) / 1000).toFixed(0)}s`);
+      for (const d of session.temporal) {
+        console.log(`    ${d.agentId}: answers ${(d.answerStability * 100).toFixed(0)}% stable, latency drift ${d.latencyDrift.toFixed(2)}`);
+        if (d.break) {
+          console.log(`    ⚠️  ${d.agentId}: history breaks at round ${d.break.round} (latency ×${d.break.latencyRatio.toFixed(1)}, answers ${(d.break.answerShift * 100).toFixed(0)}% less alike)`);
+        }
+      }
+    }
+  }
+  const agentScores = verification.agentScores ?? [];
+  if (agentScores.some(a => a.flags.length > 0)) {
+    console.log(`\nAgents:`);
+    for (const a of agentScores) {
+      console.log(`  ${a.agentId}: ${a.score.toFixed(0)}${a.likelyHuman ? ' 🧑 likely human-operated' : ''}`);
+      for (const f of a.flags) {
+        console.log(`    ⚠️  ${f.detail}`);
+      }
+    }
+  } else if (agentScores.length > 0) {
+    console.log(`\nAgents: no outliers among ${agentScores.length}`);
+  }
+  const escalation = verification.escalation;
+  if (escalation) {
+    console.log(`\nEscalation: ${escalation.stages.length - 1} of ${escalation.budget} extra stages`);
+    for (const s of escalation.stages) {
+      console.log(`  ${s.stage}. ${s.challenge}: ${s.overallScore} (${s.verdict}), ${s.answered}/${s.samples} answered`);
+      if (s.reason) console.log(`     🪜 ${s.reason.kind}: ${s.reason.detail}`);
+    }
+  }
+  const scoring = verification.scoring;
+  if (scoring && scoring.profile !== DEFAULT_PROFILE) {
+    console.log(`\n⚖️  Profile: ${scoring.profile} (genuine ≥${scoring.thresholds.genuine}, likely fake <${scoring.thresholds.likelyFake})`);
+  }
+  const overall = intervals ? ` [${intervals.overall.low.toFixed(0)}-${intervals.overall.high.toFixed(0)}]` : '';
+  console.log(`\n📊 Overall Score: ${verification.overallScore}${overall}${escalation ? ` (stage 0 alone: ${escalation.initialScore})` : ''}`);
   console.log(`🏷️  Verdict: ${verification.verdict.toUpperCase()}`);
+  const confidence = verification.confidence;
+  if (confidence) {
+    console.log(`🎯 Confidence: ${confidence.level} (${(confidence.agreement * 100).toFixed(0)}% of resamples agree)`);
+  }
+  if (confidence?.insufficient) {
+    console.log(`   ⚠️  Insufficient data: ${confidence.insufficient}`);
+  }
 }
@@ -5,7 +5,7 @@
 import { execSync } from 'child_process';
 import { writeFileSync, existsSync } from 'fs';
 import { keccak256, toBytes } from 'viem';
-import type { SwarmVerification } from '../types';
+import type { SwarmVerification, Verdict } from '../types';
 
 // EAS Contract on Base
 const EAS_ADDRESS = '0x4200000000000000000000000000000000000021';
@@ -33,11 +33,12 @@ function hashSwarm(agentIds: string[]): `0x${string}` {
 /**
  * Encode verdict to uint8
  */
-function encodeVerdict(verdict: 'genuine' | 'suspicious' | 'likely_fake'): number {
+function encodeVerdict(verdict: Verdict): number {
   switch (verdict) {
     case 'genuine': return 2;
     case 'suspicious': return 1;
     case 'likely_fake': return 0;
+    case 'insufficient_data': return 3;
   }
 }
 
@@ -0,0 +1,92 @@
+/**
+ * Bootstrap Resampling
+ * 
+ * A verdict on three agents can't be as sure as one on thirty, however good
+ * its point score. To see how much a score rests on which agents happened to
+ * be in the swarm, the analyzer re-scores resampled swarms: agents drawn with
+ * replacement, each keeping all of its responses. An agent drawn twice shows
+ * up as two copies with their own ids (its identity kept as the token id, so
+ * copies don't look like distinct agents sharing a signing key). Draws come
+ * from a PRNG seeded by the challenges, so a verdict can be reproduced.
+ */
+
+import type { Agent, Challenge, ChallengeResponse, NetworkCalibration, ScoreInterval } from '../types';
+
+export interface AgentResample {
+  agents: Agent[];
+  copies: Map<string, string[]>; // Original agent id → the ids of its copies in this sample
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded with a 32-bit FNV-1a hash of a
+ * string; returns values in [0, 1) like Math.random
+ */
+export function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Bootstrap seed of a set of responses: their challenge ids and nonces, in a
+ * fixed order, so the same evidence always resamples the same way
+ */
+export function bootstrapSeed(responses: ChallengeResponse[]): string {
+  return [...new Set(responses.map(r => `${r.challengeId}:${r.nonce ?? ''}`))].sort().join('|');
+}
+
+/**
+ * Draw agents with replacement, as many as there are
+ */
+export function resampleAgents(agents: Agent[], random: () => number = Math.random): AgentResample {
+  const copies = new Map<string, string[]>();
+  const drawn = Array.from({ length: agents.length }, (_, k) => {
+    const agent = agents[Math.floor(random() * agents.length)];
+    const id = `${agent.id}~${k}`;
+    copies.set(agent.id, [...(copies.get(agent.id) ?? []), id]);
+    return { ...agent, id, tokenId: agent.tokenId ?? agent.id };
+  });
+  return { agents: drawn, copies };
+}
+
+/**
+ * Every response once per copy of its agent (none for agents not drawn)
+ */
+export function resampleResponses(responses: ChallengeResponse[], sample: AgentResample): ChallengeResponse[] {
+  return responses.flatMap(r => (sample.copies.get(r.agentId) ?? []).map(agentId => ({ ...r, agentId })));
+}
+
+/**
+ * A challenge whose per-agent segments follow the drawn copies
+ */
+export function resampleChallenge(challenge: Challenge, sample: AgentResample): Challenge {
+  if (!challenge.segments) return challenge;
+  return {
+    ...challenge,
+    segments: challenge.segments.flatMap(s => (sample.copies.get(s.agentId) ?? []).map(agentId => ({ ...s, agentId }))),
+  };
+}
+
+export function resampleCalibration(
+  calibration: NetworkCalibration[] | undefined,
+  sample: AgentResample
+): NetworkCalibration[] | undefined {
+  return calibration?.flatMap(c => (sample.copies.get(c.agentId) ?? []).map(agentId => ({ ...c, agentId })));
+}
+
+/**
+ * Percentile interval of replicate values at a confidence level (e.g. 0.95)
+ */
+export function percentileInterval(values: number[], level: number): ScoreInterval {
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = (1 - level) / 2;
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(p * sorted.length)))];
+  return { low: at(tail), high: at(1 - tail) };
+}
@@ -0,0 +1,61 @@
+/**
+ * Network Calibration
+ * 
+ * Before a challenge, opens a keep-alive connection to each agent and measures
+ * the baseline round-trip with a few trivial probes. Scorers can then separate
+ * an agent that is slow from one that is simply far away.
+ */
+
+import type { NetworkCalibration, ResolvedEndpoint } from '../types';
+import { timedRequest, toResponseTiming } from './timing';
+
+const DEFAULT_PROBES = 3;
+const PROBE_TIMEOUT_MS = 2000;
+
+/**
+ * Probe an agent's SVP endpoint with HEAD requests.
+ * The first probe opens (and warms) the connection; later probes reuse it, so
+ * their time to first byte is close to one network RTT.
+ */
+export async function calibrateEndpoint(
+  agentId: string,
+  endpoint: ResolvedEndpoint,
+  probes: number = DEFAULT_PROBES
+): Promise<NetworkCalibration> {
+  const probesMs: number[] = [];
+  let connectMs: number | undefined;
+  let warmed = false;
+  let error: string | undefined;
+  
+  for (let i = 0; i < probes; i++) {
+    try {
+      const { response, marks } = await timedRequest(endpoint.url, {
+        method: 'HEAD',
+        headers: { 'X-SVP-Probe': '1', 'User-Agent': 'SwarmVerifier/0.1 (pvtclawn.base.eth)' },
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      // Drain rather than cancel: cancelling destroys the keep-alive socket
+      await response.arrayBuffer();
+      
+      const timing = toResponseTiming(marks);
+      if (!timing.reusedConnection) {
+        connectMs = timing.dnsMs + timing.connectMs + timing.tlsMs;
+      }
+      probesMs.push(timing.ttfbMs);
+      warmed = true;
+    } catch (e) {
+      error = (e as Error).message;
+      warmed = false;
+    }
+  }
+  
+  return {
+    agentId,
+    endpoint: endpoint.url,
+    probesMs,
+    rttMs: probesMs.length > 0 ? Math.min(...probesMs) : undefined,
+    connectMs,
+    warmed,
+    error,
+  };
+}
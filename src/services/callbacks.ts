@@ -0,0 +1,84 @@
+/**
+ * Callback Delivery
+ * 
+ * Agents behind queues or job systems can't hold a challenge request open.
+ * In callback mode they acknowledge the challenge with 202 Accepted and POST
+ * their answer to `verifier.callback` later. Pending challenges are matched
+ * by challengeId + nonce, and arrival is timestamped on the same monotonic
+ * clock as the dispatch.
+ */
+
+import { MAX_RESPONSE_BYTES, parseJsonBody, readBodyLimited, ResponseFailure } from './failures';
+
+export interface CallbackDelivery {
+  body: Record<string, unknown>;
+  arrivedAt: number; // performance.now() when the callback request came in
+}
+
+interface PendingCallback {
+  agentId: string;
+  resolve: (delivery: CallbackDelivery) => void;
+}
+
+const pending = new Map<string, PendingCallback>();
+
+function callbackKey(challengeId: string, nonce: string): string {
+  return `${challengeId}:${nonce}`;
+}
+
+/**
+ * Register a pending challenge before it is sent (a fast agent may call back
+ * before its acknowledgement arrives). Resolves when the callback arrives;
+ * rejects when `signal` aborts. Call `cancel` once the answer is no longer
+ * wanted.
+ */
+export function expectCallback(
+  challengeId: string,
+  nonce: string,
+  agentId: string,
+  signal: AbortSignal
+): { delivery: Promise<CallbackDelivery>; cancel: () => void } {
+  const key = callbackKey(challengeId, nonce);
+  
+  const delivery = new Promise<CallbackDelivery>((resolve, reject) => {
+    pending.set(key, { agentId, resolve });
+    signal.addEventListener('abort', () => {
+      pending.delete(key);
+      reject(new ResponseFailure('timeout', 'No callback before the challenge timed out'));
+    }, { once: true });
+  });
+  // Nobody awaits the delivery if the agent answers synchronously
+  delivery.catch(() => {});
+  
+  return { delivery, cancel: () => pending.delete(key) };
+}
+
+/**
+ * HTTP handler for callback answers (POST, same body as a synchronous response)
+ */
+export async function handleCallback(req: Request): Promise<Response> {
+  const arrivedAt = performance.now();
+  
+  let body: Record<string, unknown>;
+  try {
+    body = parseJsonBody<Record<string, unknown>>(await readBodyLimited(req, MAX_RESPONSE_BYTES));
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 400 });
+  }
+  
+  const challengeId = typeof body?.challengeId === 'string' ? body.challengeId : '';
+  const nonce = typeof body?.nonce === 'string' ? body.nonce : '';
+  const key = callbackKey(challengeId, nonce);
+  const entry = pending.get(key);
+  
+  // Unknown, already answered, or timed out
+  if (!entry) {
+    return Response.json({ error: 'No pending challenge for this challengeId and nonce' }, { status: 404 });
+  }
+  
+  pending.delete(key);
+  entry.resolve({ body, arrivedAt });
+  console.log(`   📬 Callback from ${entry.agentId}`);
+  
+  return Response.json({ status: 'received', challengeId, nonce });
+}
@@ -4,31 +4,135 @@
  * Generates challenges that are easy for AI but reveal human coordination.
  */
 
-import { randomBytes } from 'crypto';
-import type { Challenge } from '../types';
-
-// Challenge prompts designed to reveal AI vs human patterns
-const PARALLEL_PROMPTS = [
-  "In exactly 3 words, describe the color blue.",
-  "Complete this sequence: 2, 4, 8, 16, __",
-  "What is 7 * 13? Reply with just the number.",
-  "Name one element from the periodic table.",
-  "What comes after 'Hello' in a greeting?",
-  "Spell 'verification' backwards.",
-  "What is the capital of France? One word.",
-  "Complete: The quick brown fox jumps over the lazy ___",
-  "What is 100 - 37?",
-  "Name a primary color.",
+import { randomBytes, randomInt } from 'crypto';
+import type { Challenge, SvpChallengeType, ValidatorId } from '../types';
+import { bindNonce, generateDistributedTask, generateNonceTask, generateTask, generateTasks } from './tasks';
+import { generateReleaseKey } from './timelock';
+
+// A fixed prompt and, where there's a checkable answer, how to check it
+interface KeyedPrompt {
+  prompt: string;
+  validator?: ValidatorId;
+  expected?: string;
+}
+
+// Fixed prompts, used when procedural tasks are turned off
+const PARALLEL_PROMPTS: KeyedPrompt[] = [
+  // Word counts allow a little slack: models join lists with "and"
+  { prompt: "In exactly 3 words, describe the color blue.", validator: 'word_count', expected: '3-4' },
+  // The answer may repeat the sequence, so check the number it ends on rather than the first one
+  { prompt: "Complete this sequence: 2, 4, 8, 16, __. Reply with just the number.", validator: 'regex', expected: '\\b32\\.?$' },
+  { prompt: "What is 7 * 13? Reply with just the number.", validator: 'numeric', expected: '91' },
+  { prompt: "Name one element from the periodic table.", validator: 'regex', expected: '\\b(hydrogen|helium|lithium|carbon|nitrogen|oxygen|neon|sodium|magnesium|aluminium|aluminum|silicon|sulfur|chlorine|argon|potassium|calcium|iron|copper|zinc|silver|gold|mercury|lead|uranium)\\b' },
+  { prompt: "What comes after 'Hello' in a greeting?", validator: 'regex', expected: '\\b(world|there)\\b' },
+  { prompt: "Spell 'verification' backwards.", validator: 'exact', expected: 'noitacifirev' },
+  { prompt: "What is the capital of France? One word.", validator: 'exact', expected: 'Paris' },
+  { prompt: "Complete: The quick brown fox jumps over the lazy ___", validator: 'regex', expected: '\\bdog\\b' },
+  { prompt: "What is 100 - 37?", validator: 'numeric', expected: '63' },
+  { prompt: "Name a primary color.", validator: 'regex', expected: '\\b(red|yellow|blue|green)\\b' },
 ];
 
-const CONSISTENCY_PROMPTS = [
-  "Explain quantum computing in exactly 10 words.",
-  "What is the meaning of life? Answer in haiku format.",
-  "Describe yourself in 5 adjectives.",
-  "What year did World War 2 end?",
-  "Define 'artificial intelligence' in one sentence.",
+const CONSISTENCY_PROMPTS: KeyedPrompt[] = [
+  { prompt: "Explain quantum computing in exactly 10 words.", validator: 'word_count', expected: '8-12' },
+  // A haiku may come on one line or three; there's no fair format check
+  { prompt: "What is the meaning of life? Answer in haiku format." },
+  { prompt: "Describe yourself in 5 adjectives.", validator: 'word_count', expected: '5-8' },
+  { prompt: "What year did World War 2 end?", validator: 'numeric', expected: '1945' },
+  // One sentence may hold "e.g." or "A.I.", so only check it's a single line
+  { prompt: "Define 'artificial intelligence' in one sentence.", validator: 'regex', expected: '^[^\\n]+$' },
 ];
 
+// Paraphrases of the same question, for temporal consistency: an agent asked
+// any of them at any time should give the same answer
+const PROMPT_FAMILIES: Record<string, KeyedPrompt[]> = {
+  ww2: [
+    // Just the year, so answers compare across rounds whatever the phrasing
+    { prompt: "What year did World War 2 end? Reply with just the year.", validator: 'numeric', expected: '1945' },
+    { prompt: "In which year did the Second World War end? Reply with just the year.", validator: 'numeric', expected: '1945' },
+    { prompt: "WW2 ended in what year? Reply with just the year.", validator: 'numeric', expected: '1945' },
+  ],
+  capital: [
+    { prompt: "What is the capital of France? One word.", validator: 'exact', expected: 'Paris' },
+    { prompt: "Name the capital city of France in one word.", validator: 'exact', expected: 'Paris' },
+    { prompt: "Which city is the capital of France? One word.", validator: 'exact', expected: 'Paris' },
+  ],
+  product: [
+    { prompt: "What is 7 * 13? Reply with just the number.", validator: 'numeric', expected: '91' },
+    { prompt: "Multiply 7 by 13. Reply with just the number.", validator: 'numeric', expected: '91' },
+    { prompt: "What is thirteen times seven? Reply with just the number.", validator: 'numeric', expected: '91' },
+  ],
+  quantum: [
+    { prompt: "Explain quantum computing in exactly 10 words.", validator: 'word_count', expected: '8-12' },
+    { prompt: "Describe quantum computing using exactly 10 words.", validator: 'word_count', expected: '8-12' },
+    { prompt: "In exactly 10 words, what is quantum computing?", validator: 'word_count', expected: '8-12' },
+  ],
+};
+
+// Multi-token prompts for streaming challenges (need enough tokens for ITT analysis)
+const STREAM_PROMPTS: KeyedPrompt[] = [
+  { prompt: "Count from 1 to 10.", validator: 'regex', expected: '\\b1\\D+2\\D+3\\D+4\\D+5\\D+6\\D+7\\D+8\\D+9\\D+10\\b' },
+  { prompt: "List the days of the week.", validator: 'regex', expected: 'monday[\\s\\S]*tuesday[\\s\\S]*wednesday[\\s\\S]*thursday[\\s\\S]*friday[\\s\\S]*saturday[\\s\\S]*sunday|sunday[\\s\\S]*monday[\\s\\S]*saturday' },
+  { prompt: "Name the first eight letters of the alphabet, separated by spaces.", validator: 'regex', expected: '^a b c d e f g h$' },
+  { prompt: "List the planets of the solar system in order from the Sun.", validator: 'regex', expected: 'mercury[\\s\\S]*venus[\\s\\S]*earth[\\s\\S]*mars[\\s\\S]*jupiter[\\s\\S]*saturn[\\s\\S]*uranus[\\s\\S]*neptune' },
+  { prompt: "Name the four seasons of the year.", validator: 'regex', expected: '^(?=[\\s\\S]*spring)(?=[\\s\\S]*summer)(?=[\\s\\S]*(autumn|fall))(?=[\\s\\S]*winter)' },
+];
+
+// Quick tasks for batch challenges: trivial for an LLM in one pass, slow to
+// copy-paste one by one
+const BATCH_TASKS: { prompt: string; answer: string }[] = [
+  { prompt: "2+2=?", answer: "4" },
+  { prompt: "Capital of France?", answer: "Paris" },
+  { prompt: "Color of a clear daytime sky?", answer: "Blue" },
+  { prompt: "What is 9 * 9?", answer: "81" },
+  { prompt: "Opposite of hot?", answer: "Cold" },
+  { prompt: "How many days are in a week?", answer: "7" },
+  { prompt: "First letter of the English alphabet?", answer: "A" },
+  { prompt: "What is 15 + 27?", answer: "42" },
+  { prompt: "Plural of 'mouse'?", answer: "Mice" },
+  { prompt: "Freezing point of water in Celsius?", answer: "0" },
+  { prompt: "How many legs does a spider have?", answer: "8" },
+  { prompt: "Reverse the word 'stop'.", answer: "pots" },
+  { prompt: "What is 12 / 4?", answer: "3" },
+  { prompt: "What is 50 - 8?", answer: "42" },
+];
+
+const DEFAULT_BATCH_SIZE = 10;
+export const MAX_BATCH_SIZE = 50;
+
+export interface ChallengeOptions {
+  svpType?: SvpChallengeType;
+  batchSize?: number; // Batch challenges only
+  procedural?: boolean; // Fresh generated tasks for parallel and batch challenges (default true)
+  family?: string; // Consistency challenges: ask a paraphrase from this prompt family
+  nonceBound?: boolean; // Parallel challenges: a task whose answer is derived from each agent's nonce
+  timeLocked?: boolean; // Prompt delivered sealed ahead of time, released by key (see timelock.ts)
+}
+
+// Nonces are long enough, and mixed enough (letters with vowels, digits), to
+// make nonce-derived tasks non-trivial
+const NONCE_LENGTH = 12;
+const NONCE_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Fisher-Yates shuffle (copy)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * A random prompt family, for a temporal session to ask in every round
+ */
+export function pickPromptFamily(): string {
+  const families = Object.keys(PROMPT_FAMILIES);
+  return families[Math.floor(Math.random() * families.length)];
+}
+
 export function generateChallengeId(): string {
   return `ch_${randomBytes(8).toString('hex')}`;
 }
@@ -36,28 +140,163 @@ export function generateChallengeId(): string {
 export function generateChallenge(
   type: 'parallel' | 'distributed' | 'consistency',
   targetAgents: string[],
-  timeoutMs: number = 10000
+  timeoutMs: number = 10000,
+  options: ChallengeOptions = {}
 ): Challenge {
-  const prompts = type === 'consistency' ? CONSISTENCY_PROMPTS : PARALLEL_PROMPTS;
-  const prompt = prompts[Math.floor(Math.random() * prompts.length)];
+  const challenge = buildChallenge(type, targetAgents, timeoutMs, options);
+  return options.timeLocked ? { ...challenge, releaseKey: generateReleaseKey() } : challenge;
+}
+
+function buildChallenge(
+  type: 'parallel' | 'distributed' | 'consistency',
+  targetAgents: string[],
+  timeoutMs: number,
+  options: ChallengeOptions
+): Challenge {
+  const svpType = options.svpType ?? 'text';
+  const prompts = type === 'consistency'
+    ? CONSISTENCY_PROMPTS
+    : svpType === 'stream' ? STREAM_PROMPTS : PARALLEL_PROMPTS;
+  const keyed = prompts[Math.floor(Math.random() * prompts.length)];
+  const procedural = options.procedural !== false;
   
   const now = Date.now();
   
+  if (svpType === 'batch' && procedural) {
+    // Nonce-bound tasks are fine here: a batch is scored per answer
+    const tasks = generateTasks(options.batchSize ?? DEFAULT_BATCH_SIZE, { nonceBound: true });
+    
+    return {
+      id: generateChallengeId(),
+      type,
+      svpType,
+      prompt: `Answer each of the following ${tasks.length} prompts. Reply with just the answer to each.`,
+      prompts: tasks.map(t => t.prompt),
+      expectedAnswers: tasks.map(t => t.expected),
+      validators: tasks.map(t => t.validator),
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      targetAgents,
+    };
+  }
+  
+  if (svpType === 'batch') {
+    const size = Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, BATCH_TASKS.length);
+    const tasks = shuffle(BATCH_TASKS).slice(0, size);
+    
+    return {
+      id: generateChallengeId(),
+      type,
+      svpType,
+      prompt: `Answer each of the following ${size} prompts. Reply with just the answer to each.`,
+      prompts: tasks.map(t => t.prompt),
+      expectedAnswers: tasks.map(t => t.answer),
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      targetAgents,
+    };
+  }
+  
+  if (type === 'distributed') {
+    // One task, a different segment for every agent (batches above stay shared)
+    const task = generateDistributedTask(targetAgents);
+    
+    return {
+      id: generateChallengeId(),
+      type,
+      svpType,
+      prompt: task.prompt,
+      template: task.template,
+      validator: task.validator,
+      expectedAnswer: task.expected,
+      segments: task.segments,
+      combine: task.combine,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      targetAgents,
+    };
+  }
+  
+  if (type === 'consistency' && options.family && PROMPT_FAMILIES[options.family]) {
+    // Same question as earlier rounds, possibly worded differently
+    const variants = PROMPT_FAMILIES[options.family];
+    const variant = variants[Math.floor(Math.random() * variants.length)];
+    
+    return {
+      id: generateChallengeId(),
+      type,
+      svpType,
+      prompt: variant.prompt,
+      family: options.family,
+      validator: variant.validator,
+      expectedAnswer: variant.expected,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      targetAgents,
+    };
+  }
+  
+  if (type === 'parallel' && options.nonceBound) {
+    // Every agent's answer differs, and none exists before its nonce is issued
+    const task = generateNonceTask();
+    
+    return {
+      id: generateChallengeId(),
+      type,
+      svpType,
+      prompt: task.prompt,
+      template: task.template,
+      validator: task.validator,
+      expectedAnswer: task.expected,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      targetAgents,
+    };
+  }
+  
+  if (type === 'parallel' && svpType === 'text' && procedural) {
+    const task = generateTask();
+    
+    return {
+      id: generateChallengeId(),
+      type,
+      svpType,
+      prompt: task.prompt,
+      template: task.template,
+      validator: task.validator,
+      expectedAnswer: task.expected,
+      createdAt: now,
+      expiresAt: now + timeoutMs,
+      targetAgents,
+    };
+  }
+  
   return {
     id: generateChallengeId(),
     type,
-    prompt,
+    svpType,
+    prompt: keyed.prompt,
+    validator: keyed.validator,
+    expectedAnswer: keyed.expected,
     createdAt: now,
     expiresAt: now + timeoutMs,
     targetAgents,
   };
 }
 
+/**
+ * The prompt an agent is sent: its own segment for distributed challenges,
+ * with its nonce filled in for nonce-bound tasks
+ */
+export function promptFor(challenge: Challenge, agentId: string, nonce: string): string {
+  return bindNonce(challenge.segments?.find(s => s.agentId === agentId)?.prompt ?? challenge.prompt, nonce);
+}
+
 /**
  * Generate a unique nonce to prevent response caching
  */
 export function generateNonce(): string {
-  return randomBytes(4).toString('hex');
+  return Array.from({ length: NONCE_LENGTH }, () => NONCE_ALPHABET[randomInt(NONCE_ALPHABET.length)]).join('');
 }
 
 /**
@@ -65,5 +304,5 @@ export function generateNonce(): string {
  */
 export function formatChallengeMessage(challenge: Challenge): string {
   const nonce = generateNonce();
-  return `[SWARM-VERIFY ${challenge.id}/${nonce}] ${challenge.prompt}`;
+  return `[SWARM-VERIFY ${challenge.id}/${nonce}] ${bindNonce(challenge.prompt, nonce)}`;
 }
@@ -0,0 +1,66 @@
+/**
+ * Agent Clustering
+ * 
+ * Average-linkage agglomerative clustering over a pairwise similarity matrix.
+ * The analyzer fills the matrix from the agents' latency profiles and answer
+ * content; the clusters it finds are the swarm's likely distinct backends or
+ * operators. A genuine swarm on one model is one cluster; a mixed farm splits.
+ */
+
+export interface MatrixCluster {
+  members: number[]; // Matrix indices
+  cohesion: number;  // Mean pairwise similarity within the cluster (1 for a single member)
+}
+
+/**
+ * Mean similarity between two groups of matrix indices
+ */
+function linkage(matrix: number[][], a: number[], b: number[]): number {
+  let total = 0;
+  for (const i of a) {
+    for (const j of b) total += matrix[i][j];
+  }
+  return total / (a.length * b.length);
+}
+
+/**
+ * Mean similarity over the pairs within one group
+ */
+function cohesion(matrix: number[][], members: number[]): number {
+  if (members.length < 2) return 1;
+  let total = 0;
+  let pairs = 0;
+  for (let x = 0; x < members.length; x++) {
+    for (let y = x + 1; y < members.length; y++) {
+      total += matrix[members[x]][members[y]];
+      pairs++;
+    }
+  }
+  return total / pairs;
+}
+
+/**
+ * Merge the two most similar clusters until no pair links at `threshold` or
+ * above. Returns the clusters, largest first.
+ */
+export function clusterMatrix(matrix: number[][], threshold: number): MatrixCluster[] {
+  let clusters = matrix.map((_, i) => [i]);
+  
+  while (clusters.length > 1) {
+    let best = { similarity: -1, a: 0, b: 0 };
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        const similarity = linkage(matrix, clusters[a], clusters[b]);
+        if (similarity > best.similarity) best = { similarity, a, b };
+      }
+    }
+    if (best.similarity < threshold) break;
+    
+    const merged = [...clusters[best.a], ...clusters[best.b]];
+    clusters = [...clusters.filter((_, i) => i !== best.a && i !== best.b), merged];
+  }
+  
+  return clusters
+    .map(members => ({ members: members.sort((a, b) => a - b), cohesion: cohesion(matrix, members) }))
+    .sort((a, b) => b.members.length - a.members.length);
+}
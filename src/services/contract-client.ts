@@ -125,6 +125,36 @@ export interface CommitData {
   answerHash: Hex;
 }
 
+/**
+ * keccak256 of an answer's UTF-8 bytes
+ */
+export function hashAnswer(answer: string): Hex {
+  return keccak256(new TextEncoder().encode(answer) as unknown as Hex);
+}
+
+/**
+ * Commitment to an answer hash: keccak256(answerHash, salt), as the contract checks it
+ */
+export function commitHash(answerHash: Hex, salt: Hex): Hex {
+  return keccak256(encodeAbiParameters(parseAbiParameters('bytes32, bytes32'), [answerHash, salt]));
+}
+
+/**
+ * Commit to an answer with a fresh salt (on-chain, or over HTTP in SVP commit-reveal mode)
+ */
+export function prepareCommit(answer: string): CommitData {
+  const answerHash = hashAnswer(answer);
+  const salt = keccak256(new TextEncoder().encode(`salt_${Date.now()}_${Math.random()}`) as unknown as Hex);
+  return { answer, salt, commitHash: commitHash(answerHash, salt), answerHash };
+}
+
+/**
+ * Whether a revealed answer and salt open a commitment
+ */
+export function verifyReveal(commitment: Hex, answer: string, salt: Hex): boolean {
+  return commitHash(hashAnswer(answer), salt).toLowerCase() === commitment.toLowerCase();
+}
+
 export class SwarmChallengeClient {
   private publicClient;
   private walletClient;
@@ -179,16 +209,7 @@ export class SwarmChallengeClient {
    * Prepare commit data (answer + salt + hash)
    */
   prepareCommit(answer: string): CommitData {
-    const answerHash = keccak256(new TextEncoder().encode(answer) as unknown as Hex);
-    const salt = keccak256(new TextEncoder().encode(`salt_${Date.now()}_${Math.random()}`) as unknown as Hex);
-    
-    const encoded = encodeAbiParameters(
-      parseAbiParameters('bytes32, bytes32'),
-      [answerHash, salt]
-    );
-    const commitHash = keccak256(encoded);
-
-    return { answer, salt, commitHash, answerHash };
+    return prepareCommit(answer);
   }
 
   /**
@@ -0,0 +1,207 @@
+/**
+ * Endpoint Discovery
+ * 
+ * Resolves an agent's SVP endpoint from its A2A-style agent card before any
+ * challenge is timed. Agents without a card are probed (untimed, in
+ * parallel) at the paths SVP endpoints have commonly lived at. Results are
+ * cached per agent endpoint, transport and tool; agents nothing answered
+ * for are left alone for a minute.
+ */
+
+import type { AdvertisedChallengeType, Agent, ResolvedEndpoint, SvpChallengeType, TransportKind } from '../types';
+
+const DEFAULT_SVP_PATH = '/.well-known/svp-challenge';
+const AGENT_CARD_PATHS = ['/.well-known/agent.json', '/.well-known/agent-card.json'];
+// Tried for agents without a card, along with the endpoint as registered if it has a path
+const PROBE_PATHS = [DEFAULT_SVP_PATH, '/api/challenge', '/challenge'];
+// One deadline for the card lookup, another for the probes (run in parallel)
+const DISCOVERY_TIMEOUT_MS = 3000;
+const CACHE_TTL_MS = 10 * 60 * 1000;
+// Agents nothing answered for aren't looked up again on every dispatch
+const UNREACHABLE_TTL_MS = 60 * 1000;
+// An SVP handler rejects an empty challenge by naming what's missing
+const SVP_ERROR_PATTERN = /challenge|nonce|prompt/i;
+
+const ADVERTISED_CHALLENGE_TYPES: AdvertisedChallengeType[] = ['text', 'stream', 'batch', 'distributed'];
+const TRANSPORTS: TransportKind[] = ['http', 'a2a', 'websocket', 'mcp'];
+
+interface AgentCard {
+  svp?: {
+    endpoint?: string; // Absolute URL or path relative to the agent
+    version?: string;
+    challengeTypes?: string[];
+    transport?: string; // How to reach `endpoint` (default 'http')
+    tool?: string;      // MCP tool name
+  };
+}
+
+// What a batch of parallel lookups found: the first hit in path order, and
+// whether anything answered at all
+interface Lookup<T> {
+  found: T | null;
+  reachable: boolean;
+}
+
+const cache = new Map<string, ResolvedEndpoint>();
+const unreachable = new Map<string, number>(); // Cache key → when to look again
+
+function baseUrl(endpoint: string): string {
+  return endpoint.replace(/\/$/, '');
+}
+
+/**
+ * Agents sharing a host can still differ in how they are reached
+ */
+function cacheKey(agent: Agent): string {
+  return `${baseUrl(agent.endpoint)}|${agent.transport ?? 'http'}|${agent.mcpTool ?? ''}`;
+}
+
+/**
+ * Request every URL at once under one deadline and keep the first match in
+ * the given order. A URL that can't be reached or times out is no match.
+ */
+async function firstMatch<T>(
+  urls: string[],
+  init: RequestInit,
+  match: (response: Response, url: string) => Promise<T | null>
+): Promise<Lookup<T>> {
+  const signal = AbortSignal.timeout(DISCOVERY_TIMEOUT_MS);
+  let reachable = false;
+  const results = await Promise.all(urls.map(async url => {
+    try {
+      const response = await fetch(url, { ...init, signal });
+      reachable = true;
+      return await match(response, url);
+    } catch {
+      // Unreachable, timed out, or not the expected body
+      return null;
+    }
+  }));
+  return { found: results.find(r => r !== null) ?? null, reachable };
+}
+
+/**
+ * Fetch an agent card from any of the well-known paths
+ */
+function fetchAgentCard(base: string): Promise<Lookup<AgentCard>> {
+  return firstMatch(
+    AGENT_CARD_PATHS.map(path => `${base}${path}`),
+    { headers: { 'Accept': 'application/json' } },
+    async response => {
+      if (response.ok) return await response.json() as AgentCard;
+      await response.body?.cancel();
+      return null;
+    }
+  );
+}
+
+/**
+ * Find which of the common SVP paths an agent answers on. A challenge handler
+ * rejects an empty POST with a 400 and a JSON error naming the missing
+ * challenge fields; any other reply is some other route.
+ */
+function probeEndpoint(base: string, registered: string): Promise<Lookup<string>> {
+  const urls = PROBE_PATHS.map(path => `${base}${path}`);
+  if (new URL(registered).pathname.length > 1 && !urls.includes(registered)) urls.push(registered);
+  
+  return firstMatch(
+    urls,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: '{}',
+    },
+    async (response, url) => {
+      if (response.status !== 400) {
+        await response.body?.cancel();
+        return null;
+      }
+      const body = await response.json() as { error?: unknown };
+      return typeof body.error === 'string' && SVP_ERROR_PATTERN.test(body.error) ? url : null;
+    }
+  );
+}
+
+/**
+ * Resolve the SVP endpoint for an agent.
+ * An agent with an explicit non-HTTP transport is reached at its endpoint as
+ * given. Otherwise uses the `svp` section of its agent card if there is one,
+ * else the first common SVP path that answers a probe like a challenge
+ * handler, else the PROTOCOL.md default path.
+ */
+export async function resolveEndpoint(agent: Agent): Promise<ResolvedEndpoint> {
+  const base = baseUrl(agent.endpoint);
+  const key = cacheKey(agent);
+  const cached = cache.get(key);
+  if (cached && Date.now() - cached.resolvedAt < CACHE_TTL_MS) return cached;
+  
+  const fallback: ResolvedEndpoint = { url: `${base}${DEFAULT_SVP_PATH}`, source: 'default', resolvedAt: Date.now() };
+  if (agent.transport && agent.transport !== 'http') {
+    const direct: ResolvedEndpoint = {
+      url: agent.endpoint,
+      source: 'default',
+      transport: agent.transport,
+      tool: agent.mcpTool,
+      resolvedAt: Date.now(),
+    };
+    cache.set(key, direct);
+    return direct;
+  }
+  if ((unreachable.get(key) ?? 0) > Date.now()) return fallback;
+  
+  const card = await fetchAgentCard(base);
+  const svp = card.found?.svp;
+  if (svp?.endpoint) {
+    const resolved: ResolvedEndpoint = {
+      url: new URL(svp.endpoint, `${base}/`).toString(),
+      source: 'agent_card',
+      version: svp.version,
+      challengeTypes: svp.challengeTypes?.filter((t): t is AdvertisedChallengeType =>
+        ADVERTISED_CHALLENGE_TYPES.includes(t as AdvertisedChallengeType)
+      ),
+      transport: TRANSPORTS.find(t => t === svp.transport) ?? 'http',
+      tool: svp.tool ?? agent.mcpTool,
+      resolvedAt: Date.now(),
+    };
+    cache.set(key, resolved);
+    return resolved;
+  }
+  
+  const probe = await probeEndpoint(base, agent.endpoint);
+  if (!card.reachable && !probe.reachable) {
+    unreachable.set(key, Date.now() + UNREACHABLE_TTL_MS);
+    return fallback;
+  }
+  
+  const resolved: ResolvedEndpoint = probe.found
+    ? { url: probe.found, source: 'probe', resolvedAt: Date.now() }
+    : fallback;
+  cache.set(key, resolved);
+  return resolved;
+}
+
+/**
+ * Whether an endpoint can take a challenge type.
+ * Agents that don't advertise types are assumed to handle everything, and any
+ * agent may answer a stream challenge with plain JSON.
+ */
+export function supportsChallengeType(endpoint: ResolvedEndpoint, type: SvpChallengeType): boolean {
+  if (!endpoint.challengeTypes || type === 'stream') return true;
+  return endpoint.challengeTypes.includes(type);
+}
+
+/**
+ * Whether an endpoint explicitly lists a challenge type. For optional
+ * challenges, where an agent that never heard of the type would look like a
+ * failing one.
+ */
+export function advertisesChallengeType(endpoint: ResolvedEndpoint | undefined, type: AdvertisedChallengeType): boolean {
+  return endpoint?.challengeTypes?.includes(type) ?? false;
+}
+
+/**
+ * Forget a cached endpoint (e.g. after it stopped answering)
+ */
+export function invalidateEndpoint(agent: Agent): void {
+  cache.delete(cacheKey(agent));
+}
@@ -4,8 +4,31 @@
  * Sends SVP challenges to actual agent endpoints and collects responses.
  */
 
-import type { Agent, Challenge, ChallengeResponse } from '../types';
-import { formatChallengeMessage, generateNonce } from './challenger';
+import type { Address, Hex } from 'viem';
+import type {
+  Agent,
+  BatchAnswer,
+  Challenge,
+  ChallengeResponse,
+  EchoFailure,
+  NetworkCalibration,
+  ResolvedEndpoint,
+  SignatureCheck,
+  SignatureScheme,
+  TokenTiming,
+  TokenTimeline,
+} from '../types';
+import { generateNonce, promptFor } from './challenger';
+import { calibrateEndpoint } from './calibration';
+import { expectCallback, type CallbackDelivery } from './callbacks';
+import { invalidateEndpoint, resolveEndpoint, supportsChallengeType } from './discovery';
+import { verifyReveal } from './contract-client';
+import { classifyFailure, MAX_RESPONSE_BYTES, parseJsonBody, readBodyLimited, ResponseFailure } from './failures';
+import { resolveAgentSigner, verifyResponseSignature } from './identity';
+import { toResponseTiming, type TimingMarks } from './timing';
+import { bindNonce } from './tasks';
+import { sealPrompt } from './timelock';
+import { getTransport } from './transports';
 
 interface DispatchResult {
   responses: ChallengeResponse[];
@@ -19,111 +42,610 @@ interface DispatchResult {
     stdDev: number;
     cv: number; // Coefficient of variation
   };
+  calibration: NetworkCalibration[];
+}
+
+export interface DispatchOptions {
+  calibrate?: boolean; // Measure baseline RTT and warm connections first (default true)
+  probes?: number;     // Calibration probes per agent
+  callbackUrl?: string; // Offer callback delivery (agents may answer 202 and POST here later)
+  commitReveal?: boolean; // Agents commit to an answer hash within the timeout, then reveal (not for streams)
+  revealTimeoutMs?: number; // Reveal phase timeout (default: the challenge timeout)
+  releaseLeadMs?: number; // Time-locked challenges: sealed delivery window before the key release
+}
+
+// How one agent is challenged
+interface AgentChallengeOptions {
+  expectedSigner?: Address | null;
+  callbackUrl?: string;   // Offer callback delivery
+  commitPhase?: boolean;  // Ask for a commitment instead of the answer
+  releaseAt?: number;     // Time-locked: seal the prompt; the key goes out at this instant (unix ms)
+  releasedNonce?: string; // Time-locked: the sealed challenge is delivered; send only the key
+}
+
+const DEFAULT_RELEASE_LEAD_MS = 3000;
+
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Thrown when a response does not echo the challengeId and nonce it was issued
+ */
+export class ChallengeEchoError extends ResponseFailure {
+  constructor(
+    public readonly echo: EchoFailure,
+    public readonly expected: string,
+    public readonly received: string | undefined,
+  ) {
+    super('nonce_mismatch', `Echo verification failed (${echo}): expected ${expected}, got ${received ?? 'nothing'}`);
+    this.name = 'ChallengeEchoError';
+  }
+}
+
+// Every nonce we've issued, so a replayed one can be told apart from garbage
+const NONCE_TTL_MS = 60 * 60 * 1000;
+const issuedNonces = new Map<string, { challengeId: string; agentId: string; issuedAt: number }>();
+
+/**
+ * Issue a fresh nonce for one agent on one challenge
+ */
+function issueNonce(challengeId: string, agentId: string): string {
+  const now = Date.now();
+  for (const [nonce, issued] of issuedNonces) {
+    if (now - issued.issuedAt > NONCE_TTL_MS) issuedNonces.delete(nonce);
+  }
+  
+  let nonce = generateNonce();
+  while (issuedNonces.has(nonce)) nonce = generateNonce();
+  issuedNonces.set(nonce, { challengeId, agentId, issuedAt: now });
+  return nonce;
+}
+
+/**
+ * Check that a response echoes the challengeId and the nonce issued to this agent
+ */
+function verifyEcho(
+  echo: { challengeId?: string; nonce?: string },
+  challengeId: string,
+  nonce: string
+): void {
+  if (echo.challengeId !== challengeId) {
+    throw new ChallengeEchoError('challenge_mismatch', challengeId, echo.challengeId);
+  }
+  if (echo.nonce !== nonce) {
+    const kind = echo.nonce && issuedNonces.has(echo.nonce) ? 'nonce_replay' : 'nonce_mismatch';
+    throw new ChallengeEchoError(kind, nonce, echo.nonce);
+  }
 }
 
 /**
  * Create SVP challenge payload
  */
-function createChallengePayload(challenge: Challenge): object {
+function createChallengePayload(
+  challenge: Challenge,
+  agentId: string,
+  nonce: string,
+  options: AgentChallengeOptions = {}
+): object {
+  const segment = challenge.segments?.find(s => s.agentId === agentId);
+  const content = {
+    prompt: promptFor(challenge, agentId, nonce),
+    ...(challenge.prompts ? { prompts: challenge.prompts.map(p => bindNonce(p, nonce)) } : {}),
+  };
+  // Time-locked: the prompt travels encrypted until the key is released
+  const sealed = options.releaseAt !== undefined && challenge.releaseKey
+    ? { sealed: sealPrompt(content, challenge.releaseKey), release: { at: options.releaseAt } }
+    : undefined;
+  
   return {
     version: "0.1",
     challengeId: challenge.id,
-    type: "text",
-    prompt: challenge.prompt,
-    nonce: generateNonce(),
+    type: challenge.svpType ?? "text",
+    ...(sealed ?? content),
+    ...(segment ? { segment: { index: segment.index, of: challenge.segments!.length } } : {}),
+    nonce,
+    ...(options.commitPhase ? { phase: 'commit' } : {}),
     timestamp: Date.now(),
     verifier: {
       id: "pvtclawn.base.eth",
+      ...(options.callbackUrl ? { callback: options.callbackUrl } : {}),
     },
   };
 }
 
+type RawBatchAnswer = string | { index?: number; response?: string; time?: number };
+
+/**
+ * Parse batch answers. Agents may return plain strings (in prompt order) or
+ * `{index, response, time}` objects; missing answers are left out.
+ */
+function parseBatchAnswers(raw: unknown, promptCount: number): BatchAnswer[] {
+  if (!Array.isArray(raw)) return [];
+  
+  const answers: BatchAnswer[] = [];
+  (raw as RawBatchAnswer[]).forEach((item, position) => {
+    const answer: BatchAnswer = typeof item === 'string'
+      ? { index: position, response: item }
+      : { index: item.index ?? position, response: String(item.response ?? ''), agentTimeMs: item.time };
+    
+    if (answer.index >= 0 && answer.index < promptCount && !answers.some(a => a.index === answer.index)) {
+      answers.push(answer);
+    }
+  });
+  
+  return answers.sort((a, b) => a.index - b.index);
+}
+
+interface StreamResult {
+  text: string;
+  timeline: TokenTimeline;
+  processingTime?: number;
+  challengeId?: string; // Echoed in the done frame
+  nonce?: string;
+  agentId?: string;
+  signature?: Hex;
+  signatureType?: SignatureScheme;
+}
+
+/**
+ * Build a token timeline from arrival times
+ */
+function buildTimeline(tokens: TokenTiming[]): TokenTimeline {
+  const interTokenMs: number[] = [];
+  for (let i = 1; i < tokens.length; i++) {
+    interTokenMs.push(tokens[i].arrivedMs - tokens[i - 1].arrivedMs);
+  }
+  
+  return {
+    tokens,
+    timeToFirstTokenMs: tokens.length > 0 ? tokens[0].arrivedMs : 0,
+    interTokenMs,
+  };
+}
+
+/**
+ * Consume an SVP stream (Server-Sent Events) and record when each token arrived,
+ * relative to `sentAt` (performance.now() when the request went out).
+ * 
+ * Frames are `data: {"token": "...", "time": <agent ms>}`. The stream ends when the
+ * body closes, on `data: [DONE]`, or on a `{"done": true}` frame (which carries the
+ * challengeId/nonce echo and may carry `processingTime`).
+ */
+async function readTokenStream(response: Response, sentAt: number): Promise<StreamResult> {
+  const tokens: TokenTiming[] = [];
+  let processingTime: number | undefined;
+  let echo: Pick<StreamResult, 'challengeId' | 'nonce' | 'agentId' | 'signature' | 'signatureType'> = {};
+  
+  if (!response.body) {
+    return { text: '', timeline: buildTimeline(tokens) };
+  }
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let bytes = 0;
+  let done = false;
+  
+  while (!done) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+    
+    const arrivedMs = performance.now() - sentAt;
+    bytes += chunk.value.byteLength;
+    if (bytes > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw new ResponseFailure('oversize', `Stream exceeds ${MAX_RESPONSE_BYTES} bytes`);
+    }
+    buffer += decoder.decode(chunk.value, { stream: true });
+    
+    // Events are separated by a blank line
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? '';
+    
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      
+      if (!data) continue;
+      if (data === '[DONE]') {
+        done = true;
+        break;
+      }
+      
+      const frame = parseJsonBody<{
+        token?: string;
+        time?: number;
+        done?: boolean;
+        processingTime?: number;
+        challengeId?: string;
+        nonce?: string;
+        agentId?: string;
+        signature?: Hex;
+        signatureType?: SignatureScheme;
+      }>(data);
+      if (frame.done) {
+        processingTime = frame.processingTime;
+        echo = {
+          challengeId: frame.challengeId,
+          nonce: frame.nonce,
+          agentId: frame.agentId,
+          signature: frame.signature,
+          signatureType: frame.signatureType,
+        };
+        done = true;
+        break;
+      }
+      if (typeof frame.token === 'string') {
+        tokens.push({ token: frame.token, arrivedMs, agentTimeMs: frame.time });
+      }
+    }
+  }
+  
+  if (done) await reader.cancel();
+  
+  return {
+    text: tokens.map(t => t.token).join(''),
+    timeline: buildTimeline(tokens),
+    processingTime,
+    ...echo,
+  };
+}
+
+/**
+ * Check a response signature, if the agent sent one.
+ * For an ERC-8004 agent the signed agentId must be its token ID and the signer
+ * its registered wallet; otherwise the signature only ties responses to a key.
+ */
+async function checkSignature(
+  agent: Agent,
+  signed: { challengeId: string; nonce: string; response: string; agentId?: string; signature?: Hex; signatureType?: SignatureScheme },
+  expectedSigner: Address | null | undefined
+): Promise<SignatureCheck | undefined> {
+  if (!signed.signature) return undefined;
+  
+  const agentId = signed.agentId ?? agent.tokenId ?? agent.id;
+  const check = await verifyResponseSignature(
+    { challengeId: signed.challengeId, nonce: signed.nonce, response: signed.response, agentId },
+    signed.signature,
+    signed.signatureType,
+    expectedSigner
+  );
+  
+  if (agent.tokenId && agentId !== agent.tokenId) {
+    return { ...check, identityBound: false, error: `Signed agentId ${agentId} is not token ${agent.tokenId}` };
+  }
+  if (agent.tokenId && !expectedSigner) {
+    return { ...check, error: check.error ?? `Could not resolve ERC-8004 token ${agent.tokenId}` };
+  }
+  return check;
+}
+
 /**
- * Try multiple endpoint patterns for an agent
+ * Time-locked, first phase: deliver the sealed challenge ahead of the key
+ * release. Untimed; returns the agent's nonce once it acknowledges, or the
+ * failed response.
  */
-function getEndpointVariants(baseEndpoint: string): string[] {
-  const base = baseEndpoint.replace(/\/$/, '');
-  return [
-    `${base}/.well-known/svp-challenge`,
-    `${base}/api/challenge`,
-    `${base}/challenge`,
-    `${base}/verify`,
-    base, // Try base endpoint as fallback
-  ];
+async function deliverSealed(
+  agent: Agent,
+  challenge: Challenge,
+  endpoint: ResolvedEndpoint,
+  timeoutMs: number,
+  options: AgentChallengeOptions
+): Promise<{ nonce: string; failed?: ChallengeResponse }> {
+  const nonce = issueNonce(challenge.id, agent.id);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  
+  try {
+    const { response } = await getTransport(endpoint.transport).send(
+      endpoint,
+      createChallengePayload(challenge, agent.id, nonce, options),
+      { accept: 'application/json', signal: controller.signal }
+    );
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ResponseFailure('http_status', `Sealed delivery: HTTP ${response.status}`, response.status);
+    }
+    verifyEcho(parseJsonBody<{ challengeId?: string; nonce?: string }>(await readBodyLimited(response)), challenge.id, nonce);
+    return { nonce };
+  } catch (error) {
+    const timedOut = controller.signal.aborted;
+    const failure = classifyFailure(timedOut ? new Error(`Sealed delivery timed out after ${timeoutMs}ms`) : error, timedOut);
+    
+    return {
+      nonce,
+      failed: {
+        challengeId: challenge.id,
+        agentId: agent.id,
+        nonce,
+        endpoint: endpoint.url,
+        response: '',
+        receivedAt: Date.now(),
+        latencyMs: 0,
+        echoFailure: error instanceof ChallengeEchoError ? error.echo : undefined,
+        failure,
+        error: failure.detail,
+      },
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
 }
 
 /**
- * Send challenge to a single agent and measure response time
+ * Send challenge to a single agent and measure response time.
+ * The endpoint is already resolved, so timing covers only the real challenge.
+ * For a time-locked challenge only the key packet is sent here, and timing
+ * starts with it.
  */
 async function challengeAgent(
   agent: Agent,
   challenge: Challenge,
-  payload: object,
-  timeoutMs: number
+  endpoint: ResolvedEndpoint,
+  timeoutMs: number,
+  options: AgentChallengeOptions = {}
 ): Promise<ChallengeResponse> {
-  const startTime = Date.now();
+  const { expectedSigner, callbackUrl, commitPhase } = options;
+  const nonce = options.releasedNonce ?? issueNonce(challenge.id, agent.id);
+  const payload = options.releasedNonce
+    ? { challengeId: challenge.id, key: challenge.releaseKey }
+    : createChallengePayload(challenge, agent.id, nonce, options);
+  const startTime = performance.now();
+  let marks: TimingMarks | undefined;
+  
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
   
-  // If no endpoint, return error immediately
-  if (!agent.endpoint) {
+  // Registered before sending: the callback can beat the acknowledgement
+  const callback = callbackUrl ? expectCallback(challenge.id, nonce, agent.id, controller.signal) : undefined;
+  
+  try {
+    const request = await getTransport(endpoint.transport).send(endpoint, payload, {
+      accept: challenge.svpType === 'stream' ? 'text/event-stream' : 'application/json',
+      signal: controller.signal,
+    });
+    const response = request.response;
+    marks = request.marks;
+    
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ResponseFailure('http_status', `HTTP ${response.status}`, response.status);
+    }
+    
+    const headerTime = parseInt(response.headers.get('X-SVP-Response-Time') || '0');
+    
+    // Streamed answer: the timeout keeps running until the stream ends
+    if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      const stream = await readTokenStream(response, marks.ready || marks.start);
+      const receivedAt = Date.now();
+      verifyEcho(stream, challenge.id, nonce);
+      
+      const signature = await checkSignature(
+        agent,
+        { ...stream, challengeId: challenge.id, nonce, response: stream.text },
+        expectedSigner
+      );
+      const timing = toResponseTiming(marks);
+      
+      return {
+        challengeId: challenge.id,
+        agentId: agent.id,
+        nonce,
+        endpoint: endpoint.url,
+        response: stream.text,
+        receivedAt,
+        latencyMs: Math.round(timing.totalMs),
+        timing,
+        selfReportedMs: stream.processingTime || headerTime,
+        timeline: stream.timeline,
+        signature,
+      };
+    }
+    
+    // 202 Accepted: the answer comes later, to the callback route. The
+    // challenge timeout covers the wait.
+    let delivered: CallbackDelivery | undefined;
+    if (response.status === 202) {
+      await response.body?.cancel();
+      if (!callback) {
+        throw new ResponseFailure('http_status', 'Agent deferred its answer (202) but no callback was offered', 202);
+      }
+      delivered = await callback.delivery;
+    }
+    
+    // Commit phase: only the commitment comes back now; the answer is revealed later
+    if (commitPhase) {
+      const data = parseJsonBody<{ challengeId?: string; nonce?: string; commitment?: string; processingTime?: number }>(
+        await readBodyLimited(response)
+      );
+      const receivedAt = Date.now();
+      verifyEcho(data, challenge.id, nonce);
+      if (typeof data.commitment !== 'string' || !BYTES32_PATTERN.test(data.commitment)) {
+        throw new ResponseFailure('malformed_body', 'Commit has no 32-byte commitment');
+      }
+      const timing = toResponseTiming(marks);
+      
+      return {
+        challengeId: challenge.id,
+        agentId: agent.id,
+        nonce,
+        endpoint: endpoint.url,
+        delivery: 'sync',
+        response: '',
+        receivedAt,
+        latencyMs: Math.round(timing.totalMs),
+        timing,
+        selfReportedMs: data.processingTime || headerTime,
+        commit: { commitment: data.commitment, verified: false },
+      };
+    }
+    
+    const data = (delivered?.body ?? parseJsonBody(await readBodyLimited(response))) as {
+      challengeId?: string;
+      nonce?: string;
+      response?: string;
+      message?: string;
+      content?: string;
+      answers?: unknown;
+      processingTime?: number;
+      agentId?: string;
+      signature?: Hex;
+      signatureType?: SignatureScheme;
+    };
+    const receivedAt = Date.now();
+    verifyEcho(data, challenge.id, nonce);
+    
+    const answers = challenge.prompts ? parseBatchAnswers(data.answers, challenge.prompts.length) : undefined;
+    const responseText = answers
+      ? answers.map(a => a.response).join('\n')
+      : data.response || data.message || data.content || JSON.stringify(data);
+    
+    const signature = await checkSignature(
+      agent,
+      { ...data, challengeId: challenge.id, nonce, response: responseText },
+      expectedSigner
+    );
+    // For a callback the answer "arrives" when the callback does
+    const timing = delivered
+      ? toResponseTiming({ ...marks, firstByte: delivered.arrivedAt, bodyDone: delivered.arrivedAt })
+      : toResponseTiming(marks);
+    
+    return {
+      challengeId: challenge.id,
+      agentId: agent.id,
+      nonce,
+      endpoint: endpoint.url,
+      delivery: delivered ? 'callback' : 'sync',
+      response: responseText,
+      receivedAt,
+      latencyMs: Math.round(timing.totalMs),
+      timing,
+      selfReportedMs: data.processingTime || headerTime,
+      answers,
+      signature,
+    };
+  } catch (error) {
+    const timedOut = controller.signal.aborted;
+    const failure = classifyFailure(timedOut ? new Error(`Timed out after ${timeoutMs}ms`) : error, timedOut);
+    
+    // Transport failures may mean the endpoint moved; rediscover next time
+    if (['dns', 'connection_refused', 'tls', 'http_status', 'network'].includes(failure.kind)) {
+      invalidateEndpoint(agent);
+    }
+    
     return {
       challengeId: challenge.id,
       agentId: agent.id,
+      nonce,
+      endpoint: endpoint.url,
       response: '',
       receivedAt: Date.now(),
-      latencyMs: 0,
-      error: 'No endpoint configured',
+      latencyMs: Math.round(performance.now() - startTime),
+      timing: marks ? toResponseTiming(marks) : undefined,
+      echoFailure: error instanceof ChallengeEchoError ? error.echo : undefined,
+      failure,
+      error: failure.detail,
     };
+  } finally {
+    clearTimeout(timeout);
+    callback?.cancel();
   }
+}
+
+/**
+ * Commit-reveal, second phase: ask a committed agent for its answer and salt
+ * and check that they open its commitment. The response keeps the commit's
+ * timing; a reveal that doesn't match fails as 'bad_reveal'.
+ */
+async function revealAgent(
+  agent: Agent,
+  challenge: Challenge,
+  endpoint: ResolvedEndpoint,
+  committed: ChallengeResponse,
+  timeoutMs: number,
+  expectedSigner?: Address | null
+): Promise<ChallengeResponse> {
+  const nonce = committed.nonce!;
+  const commitment = committed.commit!.commitment;
+  const startTime = performance.now();
   
-  const endpoints = getEndpointVariants(agent.endpoint);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
   
-  for (const endpoint of endpoints) {
-    try {
-      const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), timeoutMs);
-      
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'SwarmVerifier/0.1 (pvtclawn.base.eth)',
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeout);
-      const receivedAt = Date.now();
-      
-      if (response.ok) {
-        const data = await response.json() as { response?: string; message?: string; content?: string; processingTime?: number };
-        const responseText = data.response || data.message || data.content || JSON.stringify(data);
-        
-        return {
-          challengeId: challenge.id,
-          agentId: agent.id,
-          response: responseText,
-          receivedAt,
-          latencyMs: receivedAt - startTime,
-          selfReportedMs: data.processingTime || parseInt(response.headers.get('X-SVP-Response-Time') || '0'),
-        };
-      }
-      // If not OK, try next endpoint variant
-    } catch (error) {
-      // Try next endpoint variant
-      continue;
+  try {
+    const { response } = await getTransport(endpoint.transport).send(
+      endpoint,
+      { version: '0.1', challengeId: challenge.id, nonce, phase: 'reveal' },
+      { accept: 'application/json', signal: controller.signal }
+    );
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new ResponseFailure('http_status', `Reveal: HTTP ${response.status}`, response.status);
     }
+    
+    const data = parseJsonBody<{
+      challengeId?: string;
+      nonce?: string;
+      response?: string;
+      answers?: unknown;
+      salt?: string;
+      agentId?: string;
+      signature?: Hex;
+      signatureType?: SignatureScheme;
+    }>(await readBodyLimited(response));
+    verifyEcho(data, challenge.id, nonce);
+    
+    // A batch commitment covers the answers joined with newlines, in prompt order
+    const answers = challenge.prompts ? parseBatchAnswers(data.answers, challenge.prompts.length) : undefined;
+    const responseText = answers ? answers.map(a => a.response).join('\n') : data.response ?? '';
+    if (typeof data.salt !== 'string' || !BYTES32_PATTERN.test(data.salt)
+      || !verifyReveal(commitment as Hex, responseText, data.salt as Hex)) {
+      throw new ResponseFailure('bad_reveal', 'Revealed answer and salt do not open the commitment');
+    }
+    
+    const signature = await checkSignature(
+      agent,
+      { ...data, challengeId: challenge.id, nonce, response: responseText },
+      expectedSigner
+    );
+    
+    return {
+      ...committed,
+      response: responseText,
+      answers,
+      signature,
+      commit: { commitment, salt: data.salt, revealMs: Math.round(performance.now() - startTime), verified: true },
+    };
+  } catch (error) {
+    const timedOut = controller.signal.aborted;
+    const failure = classifyFailure(timedOut ? new Error(`Reveal timed out after ${timeoutMs}ms`) : error, timedOut);
+    
+    return {
+      ...committed,
+      echoFailure: error instanceof ChallengeEchoError ? error.echo : undefined,
+      failure,
+      error: failure.detail,
+    };
+  } finally {
+    clearTimeout(timeout);
   }
-  
-  // All endpoints failed
-  const receivedAt = Date.now();
+}
+
+/**
+ * Record an agent that was never challenged
+ */
+function skipAgent(agent: Agent, challenge: Challenge, error: string, endpoint?: ResolvedEndpoint): ChallengeResponse {
   return {
     challengeId: challenge.id,
     agentId: agent.id,
+    endpoint: endpoint?.url,
     response: '',
-    receivedAt,
-    latencyMs: receivedAt - startTime,
-    error: 'All endpoint variants failed',
+    receivedAt: Date.now(),
+    latencyMs: 0,
+    failure: { kind: 'not_challenged', detail: error },
+    error,
   };
 }
 
@@ -152,17 +674,130 @@ function calculateTimingStats(latencies: number[]): DispatchResult['timingStats'
 export async function dispatchChallenge(
   agents: Agent[],
   challenge: Challenge,
-  timeoutMs: number = 10000
+  timeoutMs: number = 10000,
+  options: DispatchOptions = {}
 ): Promise<DispatchResult> {
-  const payload = createChallengePayload(challenge);
-  
   console.log(`📡 Dispatching challenge ${challenge.id} to ${agents.length} agents...`);
   console.log(`   Prompt: "${challenge.prompt}"`);
+  if (challenge.svpType === 'stream') {
+    console.log(`   Mode: stream (SSE, per-token timing)`);
+  } else if (challenge.prompts) {
+    console.log(`   Mode: batch (${challenge.prompts.length} prompts)`);
+  }
+  
+  // Discover endpoints and resolve ERC-8004 signers up front, so neither
+  // counts as latency
+  const endpoints = new Map<string, ResolvedEndpoint>();
+  const expectedSigners = new Map<string, Address | null>();
+  const registered = agents.filter(a => a.tokenId);
+  if (registered.length > 0) {
+    console.log(`   Resolving ${registered.length} ERC-8004 identities...`);
+  }
+  await Promise.all(agents.map(async agent => {
+    if (agent.endpoint) endpoints.set(agent.id, await resolveEndpoint(agent));
+    if (agent.tokenId) expectedSigners.set(agent.id, await resolveAgentSigner(agent.tokenId));
+  }));
+  
+  const fromCards = [...endpoints.values()].filter(e => e.source === 'agent_card').length;
+  const probed = [...endpoints.values()].filter(e => e.source === 'probe').length;
+  console.log(`   Endpoints: ${endpoints.size} resolved (${fromCards} from agent cards, ${probed} probed)`);
+  const transports = [...endpoints.values()].filter(e => e.transport && e.transport !== 'http');
+  if (transports.length > 0) {
+    const counts = new Map<string, number>();
+    for (const e of transports) counts.set(e.transport!, (counts.get(e.transport!) ?? 0) + 1);
+    console.log(`   Transports: ${[...counts].map(([t, n]) => `${t}×${n}`).join(', ')}`);
+  }
   
-  // Send to all agents simultaneously
+  // Transport setup (MCP handshakes). A failure here resurfaces, classified,
+  // when the challenge is sent.
+  await Promise.all([...endpoints.values()].map(e => getTransport(e.transport).prepare?.(e).catch(() => {})));
+  
+  // Baseline RTT per agent; also leaves a warm connection for the challenge.
+  // WebSocket channels have no HTTP round trip to probe.
+  const calibration = options.calibrate === false ? [] : await Promise.all(
+    [...endpoints]
+      .filter(([, endpoint]) => endpoint.transport !== 'websocket')
+      .map(([agentId, endpoint]) => calibrateEndpoint(agentId, endpoint, options.probes))
+  );
+  const rtts = calibration.filter(c => c.rttMs !== undefined).map(c => c.rttMs!);
+  if (rtts.length > 0) {
+    console.log(`   Network RTT: ${Math.min(...rtts).toFixed(1)}-${Math.max(...rtts).toFixed(1)}ms (${rtts.length} calibrated)`);
+  }
+  
+  const svpType = challenge.svpType ?? 'text';
+  
+  // Streams are answered token by token as they're generated, so they can't
+  // commit first; commits must come back synchronously
+  const commitReveal = options.commitReveal === true && svpType !== 'stream';
+  if (commitReveal) {
+    console.log(`   Mode: commit-reveal (answers revealed once every commit is in)`);
+  }
+  
+  // Streams need the connection held open, so they never use callbacks
+  const callbackUrl = svpType === 'stream' || commitReveal ? undefined : options.callbackUrl;
+  if (callbackUrl) {
+    console.log(`   Callback: ${callbackUrl}`);
+  }
+  
+  const challengeable = (agent: Agent) => {
+    const endpoint = endpoints.get(agent.id);
+    return endpoint && supportsChallengeType(endpoint, svpType) ? endpoint : undefined;
+  };
+  
+  // Time-locked: sealed challenges go out now, the key at one instant for everyone
+  const releaseAt = challenge.releaseKey ? Date.now() + (options.releaseLeadMs ?? DEFAULT_RELEASE_LEAD_MS) : undefined;
+  const sealed = new Map<string, { nonce: string; failed?: ChallengeResponse }>();
+  if (releaseAt !== undefined) {
+    const leadMs = releaseAt - Date.now();
+    console.log(`   Mode: time-locked (sealed prompt now, key release in ${leadMs}ms)`);
+    await Promise.all(agents.map(async agent => {
+      const endpoint = challengeable(agent);
+      if (!endpoint) return;
+      sealed.set(agent.id, await deliverSealed(agent, challenge, endpoint, leadMs, {
+        callbackUrl,
+        commitPhase: commitReveal,
+        releaseAt,
+      }));
+    }));
+    const delivered = [...sealed.values()].filter(s => !s.failed).length;
+    console.log(`   Sealed: ${delivered}/${agents.length} delivered, releasing key...`);
+    await new Promise(r => setTimeout(r, Math.max(0, releaseAt - Date.now())));
+  }
+  
+  // Send to all agents simultaneously, each with its own nonce
   const startTime = Date.now();
-  const promises = agents.map(agent => challengeAgent(agent, challenge, payload, timeoutMs));
-  const responses = await Promise.all(promises);
+  const promises = agents.map(agent => {
+    const endpoint = endpoints.get(agent.id);
+    if (!endpoint) {
+      return skipAgent(agent, challenge, 'No endpoint configured');
+    }
+    if (!supportsChallengeType(endpoint, svpType)) {
+      return skipAgent(agent, challenge, `Agent does not support '${svpType}' challenges`, endpoint);
+    }
+    const delivery = sealed.get(agent.id);
+    if (delivery?.failed) return delivery.failed;
+    return challengeAgent(agent, challenge, endpoint, timeoutMs, {
+      expectedSigner: expectedSigners.get(agent.id),
+      callbackUrl,
+      commitPhase: commitReveal,
+      releasedNonce: delivery?.nonce,
+    });
+  });
+  let responses = await Promise.all(promises);
+  if (releaseAt !== undefined) {
+    responses = responses.map(r => r.failure?.kind === 'not_challenged' ? r : { ...r, releaseAt });
+  }
+  
+  // Reveals are requested only once every commit is in or timed out, so no
+  // agent's answer is out before all of them are fixed
+  if (commitReveal) {
+    const committed = responses.filter(r => r.commit && !r.error).length;
+    console.log(`   Committed: ${committed}/${agents.length}, requesting reveals...`);
+    responses = await Promise.all(responses.map((r, i) => r.commit && !r.error
+      ? revealAgent(agents[i], challenge, endpoints.get(agents[i].id)!, r, options.revealTimeoutMs ?? timeoutMs, expectedSigners.get(agents[i].id))
+      : r
+    ));
+  }
   
   const totalTime = Date.now() - startTime;
   console.log(`   All responses collected in ${totalTime}ms`);
@@ -177,6 +812,10 @@ export async function dispatchChallenge(
   const timingStats = calculateTimingStats(latencies);
   
   console.log(`   Responded: ${successfulResponses.length}/${agents.length}`);
+  const failed = responses.filter(r => r.failure);
+  if (failed.length > 0) {
+    console.log(`   Failed: ${failed.map(r => `${r.agentId} [${r.echoFailure ?? r.failure!.kind}]`).join(', ')}`);
+  }
   if (successfulResponses.length > 0) {
     console.log(`   Timing: min=${timingStats.min}ms, max=${timingStats.max}ms, mean=${timingStats.mean.toFixed(0)}ms`);
     console.log(`   CV (coefficient of variation): ${timingStats.cv.toFixed(3)}`);
@@ -188,5 +827,6 @@ export async function dispatchChallenge(
     respondedCount: successfulResponses.length,
     avgLatencyMs: avgLatency,
     timingStats,
+    calibration,
   };
 }
@@ -0,0 +1,296 @@
+/**
+ * Adaptive Escalation
+ * 
+ * One challenge is often not enough to call a swarm. When a verdict lands in
+ * the suspicious band, sits right at a threshold, or rests on too few answers,
+ * the verifier asks again with a harder or different challenge type, up to a
+ * budget of extra stages. So does a verdict that doesn't hold up when the
+ * swarm is resampled, or one the evidence can't support at all. The final
+ * score combines every stage, weighted by how many answers each one asked
+ * for, and each stage records why it ran.
+ */
+
+import type {
+  AdvertisedChallengeType,
+  Agent,
+  EscalationReason,
+  EscalationStage,
+  ResolvedEndpoint,
+  ScoreInterval,
+  SwarmVerification,
+  Verdict,
+  VerdictThresholds,
+} from '../types';
+import type { ChallengeOptions } from './challenger';
+import { generateChallenge } from './challenger';
+import { advertisesChallengeType, resolveEndpoint } from './discovery';
+import { dispatchChallenge } from './dispatcher';
+import {
+  analyzeSession,
+  analyzeSwarm,
+  answeringAgents,
+  confidenceLevel,
+  getVerdict,
+  insufficientEvidence,
+} from './analyzer';
+import { DEFAULT_THRESHOLDS, type ScoringSelection } from './scoring';
+import { runSession } from './session';
+
+/** What one stage asks */
+export interface VerificationPlan {
+  challengeType: 'parallel' | 'distributed' | 'consistency';
+  challengeOptions: ChallengeOptions;
+  rounds: number;
+}
+
+export interface EscalationOptions {
+  budget?: number; // Extra stages at most (default DEFAULT_ESCALATION_BUDGET)
+  timeoutMs?: number;
+  callbackUrl?: string;
+  commitReveal?: boolean;
+  scoring?: ScoringSelection; // Every stage is scored with the same profile
+}
+
+export const DEFAULT_ESCALATION_BUDGET = 2;
+
+// Scores this close to a threshold are too close to call
+const THRESHOLD_MARGIN = 5;
+
+// Escalation stages, hardest to fake first. Nonce-bound text works with any
+// agent; batch and distributed stages only run when every agent's card lists
+// them, so a legacy agent isn't judged on a challenge it can't parse.
+const ESCALATION_LADDER: (VerificationPlan & { requires?: AdvertisedChallengeType })[] = [
+  { challengeType: 'parallel', challengeOptions: { nonceBound: true }, rounds: 1 },
+  { challengeType: 'parallel', challengeOptions: { svpType: 'batch', batchSize: 8 }, rounds: 1, requires: 'batch' },
+  { challengeType: 'distributed', challengeOptions: {}, rounds: 1, requires: 'distributed' },
+  { challengeType: 'parallel', challengeOptions: { nonceBound: true }, rounds: 3 },
+];
+
+export const MAX_ESCALATION_BUDGET = ESCALATION_LADDER.length;
+
+/**
+ * Short description of a plan, e.g. 'parallel/batch ×3'
+ */
+function describePlan(plan: VerificationPlan): string {
+  const options = plan.challengeOptions;
+  const kind = `${plan.challengeType}/${options.svpType ?? 'text'}${options.nonceBound ? ' nonce-bound' : ''}`;
+  return plan.rounds > 1 ? `${kind} ×${plan.rounds}` : kind;
+}
+
+/**
+ * Whether a ladder stage would only repeat what was already asked
+ */
+function alreadyAsked(plan: VerificationPlan, asked: VerificationPlan[]): boolean {
+  return asked.some(a =>
+    a.challengeType === plan.challengeType
+    && (a.challengeOptions.svpType ?? 'text') === (plan.challengeOptions.svpType ?? 'text')
+    && (a.challengeOptions.nonceBound ?? false) === (plan.challengeOptions.nonceBound ?? false)
+    && (a.rounds > 1) === (plan.rounds > 1)
+  );
+}
+
+/**
+ * Why the verdict so far needs another stage, if it does
+ */
+function escalationReason(
+  score: number,
+  verdict: Verdict,
+  agreement: number | undefined,
+  answered: number,
+  agentCount: number,
+  thresholds: VerdictThresholds
+): { kind: EscalationReason; detail: string } | undefined {
+  if (verdict === 'insufficient_data') {
+    return { kind: 'sparse_evidence', detail: 'the evidence so far supports no verdict' };
+  }
+  
+  const needed = Math.max(2, Math.ceil(agentCount / 2));
+  if (answered < needed) {
+    return { kind: 'sparse_evidence', detail: `${answered} answers so far, ${needed} needed to judge` };
+  }
+  
+  if (score >= thresholds.likelyFake && score < thresholds.genuine) {
+    return {
+      kind: 'suspicious_band',
+      detail: `score ${Math.round(score)} is between ${thresholds.likelyFake} and ${thresholds.genuine}`,
+    };
+  }
+  
+  const threshold = [thresholds.genuine, thresholds.likelyFake].find(t => Math.abs(score - t) < THRESHOLD_MARGIN);
+  if (threshold !== undefined) {
+    return { kind: 'near_threshold', detail: `score ${Math.round(score)} is within ${THRESHOLD_MARGIN} of ${threshold}` };
+  }
+  
+  if (agreement !== undefined && confidenceLevel(agreement) === 'low') {
+    return { kind: 'low_confidence', detail: `only ${Math.round(agreement * 100)}% of resamples agree on the verdict` };
+  }
+  
+  return undefined;
+}
+
+/**
+ * Summarize one verified stage
+ */
+function toStage(
+  stage: number,
+  plan: VerificationPlan,
+  verification: SwarmVerification,
+  reason?: EscalationStage['reason']
+): EscalationStage {
+  return {
+    stage,
+    challenge: describePlan(plan),
+    reason,
+    verificationId: verification.id,
+    samples: verification.responses.length,
+    answered: verification.responses.filter(r => !r.error).length,
+    scores: verification.scores,
+    overallScore: verification.overallScore,
+    interval: verification.intervals?.overall,
+    verdict: verification.verdict,
+    confidence: verification.confidence?.agreement,
+  };
+}
+
+/**
+ * Stage scores averaged by samples. Unanswered challenges count: a swarm
+ * that goes quiet under escalation is penalized by that stage's participation.
+ */
+function combineStages(stages: EscalationStage[]): number {
+  const samples = stages.reduce((sum, s) => sum + s.samples, 0);
+  if (samples === 0) return 0;
+  return stages.reduce((sum, s) => sum + s.overallScore * s.samples, 0) / samples;
+}
+
+/**
+ * Stage intervals averaged by samples, if every stage has one
+ */
+function combineIntervals(stages: EscalationStage[]): ScoreInterval | undefined {
+  const samples = stages.reduce((sum, s) => sum + s.samples, 0);
+  if (samples === 0 || stages.some(s => !s.interval)) return undefined;
+  return {
+    low: stages.reduce((sum, s) => sum + s.interval!.low * s.samples, 0) / samples,
+    high: stages.reduce((sum, s) => sum + s.interval!.high * s.samples, 0) / samples,
+  };
+}
+
+/**
+ * How far the stages back the combined score's verdict, averaged by samples:
+ * a stage whose score reached the same verdict counts its bootstrap
+ * agreement, one that didn't counts its disagreement
+ */
+function combineConfidence(stages: EscalationStage[], score: number, thresholds: VerdictThresholds): number | undefined {
+  const rated = stages.filter(s => s.confidence !== undefined);
+  const samples = rated.reduce((sum, s) => sum + s.samples, 0);
+  if (samples === 0) return undefined;
+  const verdict = getVerdict(score, thresholds);
+  return rated.reduce((sum, s) => {
+    const agrees = getVerdict(s.overallScore, thresholds) === verdict;
+    const confidence = agrees ? s.confidence! : 1 - s.confidence!;
+    return sum + confidence * s.samples;
+  }, 0) / samples;
+}
+
+/**
+ * Run one stage: a single challenge, or a session for several rounds
+ */
+async function runStage(
+  agents: Agent[],
+  plan: VerificationPlan,
+  options: EscalationOptions
+): Promise<SwarmVerification> {
+  const timeoutMs = options.timeoutMs ?? 10000;
+  
+  if (plan.rounds > 1) {
+    const session = await runSession(agents, {
+      rounds: plan.rounds,
+      challengeType: plan.challengeType,
+      challengeOptions: plan.challengeOptions,
+      timeoutMs,
+      callbackUrl: options.callbackUrl,
+      commitReveal: options.commitReveal,
+    });
+    return analyzeSession(agents, session.rounds, { calibration: session.calibration, scoring: options.scoring });
+  }
+  
+  const challenge = generateChallenge(plan.challengeType, agents.map(a => a.id), timeoutMs, plan.challengeOptions);
+  const result = await dispatchChallenge(agents, challenge, timeoutMs, {
+    callbackUrl: options.callbackUrl,
+    commitReveal: options.commitReveal,
+  });
+  return analyzeSwarm(agents, challenge, result.responses, {
+    calibration: result.calibration,
+    scoring: options.scoring,
+  });
+}
+
+/**
+ * Escalate a borderline verification. Runs up to `budget` further stages,
+ * skipping challenge types already asked, until the combined verdict is
+ * clear. Returns the initial verification with the combined score and
+ * verdict and the stage history; a clear initial verdict comes back as is.
+ */
+export async function escalate(
+  agents: Agent[],
+  initial: SwarmVerification,
+  initialPlan: VerificationPlan,
+  options: EscalationOptions = {}
+): Promise<SwarmVerification> {
+  const budget = Math.max(0, Math.min(options.budget ?? DEFAULT_ESCALATION_BUDGET, MAX_ESCALATION_BUDGET));
+  const stages = [toStage(0, initialPlan, initial)];
+  const asked = [initialPlan];
+  const thresholds = initial.scoring?.thresholds ?? DEFAULT_THRESHOLDS;
+  const answering = answeringAgents(initial.responses);
+  let score = initial.overallScore;
+  let verdict = initial.verdict;
+  let agreement = initial.confidence?.agreement;
+  let insufficient = initial.confidence?.insufficient;
+  // Looked up only when a rung that needs them is next, since an endpoint
+  // invalidated after a failure would be rediscovered
+  let endpoints: (ResolvedEndpoint | undefined)[] | undefined;
+  
+  for (const { requires, ...step } of ESCALATION_LADDER) {
+    if (stages.length > budget) break;
+    
+    const answered = stages.reduce((sum, s) => sum + s.answered, 0);
+    const reason = escalationReason(score, verdict, agreement, answered, agents.length, thresholds);
+    if (!reason) break;
+    if (alreadyAsked(step, asked)) continue;
+    if (requires) {
+      endpoints ??= await Promise.all(agents.map(a => a.endpoint ? resolveEndpoint(a) : undefined));
+      if (!endpoints.every(e => advertisesChallengeType(e, requires))) continue;
+    }
+    
+    // Keep the requested delivery mode, e.g. time-locked prompts
+    const plan = {
+      ...step,
+      challengeOptions: { ...step.challengeOptions, timeLocked: initialPlan.challengeOptions.timeLocked },
+    };
+    console.log(`\n🪜 Escalating (${reason.kind}: ${reason.detail}) → ${describePlan(plan)}`);
+    
+    const verification = await runStage(agents, plan, options);
+    stages.push(toStage(stages.length, plan, verification, reason));
+    asked.push(plan);
+    answeringAgents(verification.responses).forEach(id => answering.add(id));
+    score = combineStages(stages);
+    insufficient = insufficientEvidence(answering.size, combineIntervals(stages), thresholds);
+    verdict = insufficient ? 'insufficient_data' : getVerdict(score, thresholds);
+    agreement = combineConfidence(stages, score, thresholds);
+    console.log(`   Stage ${stages.length - 1}: ${verification.overallScore} (${verification.verdict}), combined ${Math.round(score)}`);
+  }
+  
+  if (stages.length === 1) return initial;
+  
+  // Per-scorer intervals stay stage 0's, like the scores they go with
+  const interval = combineIntervals(stages);
+  return {
+    ...initial,
+    escalation: { budget, stages, initialScore: initial.overallScore },
+    intervals: initial.intervals && interval ? { ...initial.intervals, overall: interval } : undefined,
+    confidence: agreement === undefined
+      ? undefined
+      : { level: confidenceLevel(agreement, insufficient), agreement, insufficient },
+    overallScore: Math.round(score),
+    verdict,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Response Failures
+ * 
+ * Classifies why a challenge got no usable response. A timeout (agent too
+ * slow to answer) says something very different about a swarm than a 404
+ * (agent never set up SVP).
+ */
+
+import type { ChallengeFailure, FailureKind } from '../types';
+
+/** Largest response body the verifier will read */
+export const MAX_RESPONSE_BYTES = 256 * 1024;
+
+/**
+ * A classified response failure
+ */
+export class ResponseFailure extends Error {
+  constructor(
+    public readonly kind: FailureKind,
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'ResponseFailure';
+  }
+}
+
+const DNS_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'EAI_NONAME', 'EAI_FAIL'];
+const TLS_CODE_PATTERN = /^(ERR_TLS_|ERR_SSL_|CERT_|UNABLE_TO_|DEPTH_ZERO_|SELF_SIGNED_|HOSTNAME_MISMATCH)/;
+
+/**
+ * Classify a thrown error. `timedOut` is whether the challenge timeout fired,
+ * since an aborted request surfaces as a generic abort/reset error.
+ */
+export function classifyFailure(error: unknown, timedOut: boolean = false): ChallengeFailure {
+  const detail = error instanceof Error ? error.message : String(error);
+  
+  if (error instanceof ResponseFailure) {
+    return { kind: error.kind, detail, status: error.status };
+  }
+  if (timedOut) {
+    return { kind: 'timeout', detail };
+  }
+  
+  const code = (error as { code?: string })?.code ?? '';
+  if (DNS_CODES.includes(code)) return { kind: 'dns', detail };
+  if (code === 'ECONNREFUSED') return { kind: 'connection_refused', detail };
+  if (code === 'ETIMEDOUT' || code === 'ABORT_ERR' || (error as Error)?.name === 'TimeoutError') {
+    return { kind: 'timeout', detail };
+  }
+  if (TLS_CODE_PATTERN.test(code) || /certificate|tls|ssl/i.test(detail)) return { kind: 'tls', detail };
+  
+  return { kind: 'network', detail };
+}
+
+/**
+ * Read a response (or incoming request) body as text, refusing anything over `limit` bytes
+ */
+export async function readBodyLimited(response: Request | Response, limit: number = MAX_RESPONSE_BYTES): Promise<string> {
+  const declared = parseInt(response.headers.get('Content-Length') || '0');
+  if (declared > limit) {
+    await response.body?.cancel();
+    throw new ResponseFailure('oversize', `Body of ${declared} bytes exceeds ${limit}`);
+  }
+  if (!response.body) return '';
+  
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  
+  while (true) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+    
+    bytes += chunk.value.byteLength;
+    if (bytes > limit) {
+      await reader.cancel();
+      throw new ResponseFailure('oversize', `Body exceeds ${limit} bytes`);
+    }
+    text += decoder.decode(chunk.value, { stream: true });
+  }
+  
+  return text + decoder.decode();
+}
+
+/**
+ * Parse JSON, classifying a parse error as a malformed body
+ */
+export function parseJsonBody<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new ResponseFailure('malformed_body', `Invalid JSON: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Agent Identity - response signatures and ERC-8004 binding
+ * 
+ * Agents may sign (challengeId, nonce, response, agentId) with EIP-191 or EIP-712.
+ * When the agent has an ERC-8004 token, the signer must be the wallet the
+ * IdentityRegistry has on record for it.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  http,
+  isAddressEqual,
+  keccak256,
+  recoverMessageAddress,
+  recoverTypedDataAddress,
+  toBytes,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from 'viem';
+import { base } from 'viem/chains';
+import type { SignatureCheck, SignatureScheme } from '../types';
+
+// ERC-8004 IdentityRegistry on Base
+const IDENTITY_REGISTRY = (process.env.ERC8004_REGISTRY || '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432') as Address;
+const RPC_URL = process.env.BASE_RPC_URL || 'https://mainnet.base.org';
+
+const IDENTITY_REGISTRY_ABI = [
+  {
+    name: 'getAgentWallet',
+    type: 'function',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view'
+  },
+  {
+    name: 'ownerOf',
+    type: 'function',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ type: 'address' }],
+    stateMutability: 'view'
+  }
+] as const;
+
+const SVP_DOMAIN = { name: 'Swarm Verification Protocol', version: '0.1' } as const;
+
+const SVP_RESPONSE_TYPES = {
+  SvpResponse: [
+    { name: 'challengeId', type: 'string' },
+    { name: 'nonce', type: 'string' },
+    { name: 'response', type: 'string' },
+    { name: 'agentId', type: 'string' },
+  ],
+} as const;
+
+export interface SignedFields {
+  challengeId: string;
+  nonce: string;
+  response: string;
+  agentId: string;
+}
+
+/**
+ * EIP-191 message an agent signs. The response is hashed so the message stays short.
+ */
+export function svpSigningMessage(fields: SignedFields): string {
+  return [
+    'SVP/0.1 challenge response',
+    `challengeId: ${fields.challengeId}`,
+    `nonce: ${fields.nonce}`,
+    `response: ${keccak256(toBytes(fields.response))}`,
+    `agentId: ${fields.agentId}`,
+  ].join('\n');
+}
+
+/**
+ * EIP-712 typed data an agent signs
+ */
+export function svpTypedData(fields: SignedFields) {
+  return {
+    domain: SVP_DOMAIN,
+    types: SVP_RESPONSE_TYPES,
+    primaryType: 'SvpResponse' as const,
+    message: fields,
+  };
+}
+
+// Registry lookups are cached: a token's wallet doesn't change mid-verification.
+// A token the registry says is unregistered is cached briefly (it may be
+// registered soon); a lookup that failed on the RPC side isn't cached at all.
+const signerCache = new Map<string, { signer: Address | null; expiresAt: number }>();
+const UNREGISTERED_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a contract call failed because the contract reverted (no such
+ * token, or a function this registry version lacks), not the RPC
+ */
+function isContractRevert(error: unknown): boolean {
+  return error instanceof BaseError && error.walk(e => e instanceof ContractFunctionRevertedError) !== null;
+}
+
+/**
+ * Resolve the wallet an ERC-8004 token is bound to.
+ * Prefers the registry's verified agent wallet, falls back to the token owner.
+ * Returns null if the token can't be resolved.
+ */
+export async function resolveAgentSigner(tokenId: string): Promise<Address | null> {
+  const cached = signerCache.get(tokenId);
+  if (cached && Date.now() < cached.expiresAt) return cached.signer;
+  
+  const client = createPublicClient({ chain: base, transport: http(RPC_URL) });
+  let signer: Address | null = null;
+  let rpcFailed = false;
+  
+  for (const functionName of ['getAgentWallet', 'ownerOf'] as const) {
+    try {
+      const wallet = await client.readContract({
+        address: IDENTITY_REGISTRY,
+        abi: IDENTITY_REGISTRY_ABI,
+        functionName,
+        args: [BigInt(tokenId)],
+      });
+      if (!isAddressEqual(wallet, zeroAddress)) {
+        signer = wallet;
+        break;
+      }
+    } catch (error) {
+      // A revert means not supported by this registry version, or no such token
+      if (!isContractRevert(error)) rpcFailed = true;
+    }
+  }
+  
+  if (signer) {
+    signerCache.set(tokenId, { signer, expiresAt: Infinity });
+  } else if (!rpcFailed) {
+    signerCache.set(tokenId, { signer, expiresAt: Date.now() + UNREGISTERED_TTL_MS });
+  }
+  return signer;
+}
+
+/**
+ * Recover the signer of a response and check it against the expected wallet
+ */
+export async function verifyResponseSignature(
+  fields: SignedFields,
+  signature: Hex,
+  scheme: SignatureScheme = 'eip191',
+  expectedSigner?: Address | null
+): Promise<SignatureCheck> {
+  try {
+    const signer = scheme === 'eip712'
+      ? await recoverTypedDataAddress({ ...svpTypedData(fields), signature })
+      : await recoverMessageAddress({ message: svpSigningMessage(fields), signature });
+    
+    const matches = expectedSigner ? isAddressEqual(signer, expectedSigner) : true;
+    
+    return {
+      scheme,
+      signer,
+      expectedSigner: expectedSigner ?? undefined,
+      valid: matches,
+      identityBound: !!expectedSigner && matches,
+    };
+  } catch (error) {
+    return {
+      scheme,
+      expectedSigner: expectedSigner ?? undefined,
+      valid: false,
+      identityBound: false,
+      error: (error as Error).message,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Token Rhythm Analysis
+ * 
+ * Inter-token time (ITT) fingerprints from streamed responses.
+ * Based on "LLMs Have Rhythm" (arXiv:2502.20589): each model decodes with a
+ * characteristic cadence, so a genuine swarm shows alike fingerprints while
+ * humans typing or relaying pasted text do not.
+ */
+
+import type { ChallengeResponse, IttFingerprint, RhythmFlag } from '../types';
+
+// Need at least this many gaps for the features to mean anything
+const MIN_GAPS = 3;
+
+// Human typing: ~40-80 wpm is hundreds of ms per token, with irregular pauses
+const HUMAN_TYPING_MEAN_MS = 150;
+const HUMAN_TYPING_MIN_CV = 0.5;
+
+// Copy-paste relay: the whole answer lands at once after one long wait, so
+// nearly every gap is ~0. Proxies that buffer SSE also deliver sub-ms bursts,
+// but flush more than once, so a later gap rivals the first-token delay.
+const RELAY_GAP_MS = 1;
+const RELAY_GAP_FRACTION = 0.8;
+const RELAY_MIN_FIRST_TOKEN_MS = 1000;
+const RELAY_FIRST_TOKEN_RATIO = 10; // First-token delay over the longest later gap
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Lag-1 autocorrelation (0 when there is no variance)
+ */
+function autocorrelation(values: number[], avg: number): number {
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < values.length; i++) {
+    denominator += Math.pow(values[i] - avg, 2);
+    if (i > 0) numerator += (values[i] - avg) * (values[i - 1] - avg);
+  }
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Flag rhythms that look like a human rather than a decoder
+ */
+function detectRhythmFlags(gaps: number[], meanMs: number, cv: number, firstTokenMs: number): RhythmFlag[] {
+  const flags: RhythmFlag[] = [];
+  
+  if (meanMs >= HUMAN_TYPING_MEAN_MS && cv >= HUMAN_TYPING_MIN_CV) {
+    flags.push('human_typing');
+  }
+  
+  const instantGaps = gaps.filter(g => g < RELAY_GAP_MS).length;
+  const singleWait = firstTokenMs >= RELAY_MIN_FIRST_TOKEN_MS
+    && firstTokenMs >= Math.max(...gaps) * RELAY_FIRST_TOKEN_RATIO;
+  if (instantGaps / gaps.length >= RELAY_GAP_FRACTION && singleWait) {
+    flags.push('copy_paste_relay');
+  }
+  
+  return flags;
+}
+
+/**
+ * Extract an ITT fingerprint from a streamed response.
+ * Returns null if the response was not streamed or has too few tokens.
+ */
+export function extractIttFingerprint(response: ChallengeResponse): IttFingerprint | null {
+  const gaps = response.timeline?.interTokenMs;
+  if (!gaps || gaps.length < MIN_GAPS) return null;
+  
+  const meanMs = mean(gaps);
+  const jitterMs = Math.sqrt(gaps.reduce((sum, g) => sum + Math.pow(g - meanMs, 2), 0) / gaps.length);
+  const cv = meanMs > 0 ? jitterMs / meanMs : 0;
+  const burstiness = jitterMs + meanMs > 0 ? (jitterMs - meanMs) / (jitterMs + meanMs) : 0;
+  
+  return {
+    agentId: response.agentId,
+    tokenCount: response.timeline!.tokens.length,
+    meanMs,
+    jitterMs,
+    cv,
+    burstiness,
+    autocorrelation: autocorrelation(gaps, meanMs),
+    flags: detectRhythmFlags(gaps, meanMs, cv, response.timeline!.timeToFirstTokenMs),
+  };
+}
+
+/**
+ * Distance between two fingerprints.
+ * Speed is compared on a log scale so 20ms vs 40ms counts the same as 50ms vs 100ms.
+ */
+function fingerprintDistance(a: IttFingerprint, b: IttFingerprint): number {
+  const speed = Math.log(Math.max(a.meanMs, 0.1) / Math.max(b.meanMs, 0.1));
+  const jitter = a.cv - b.cv;
+  const burst = (a.burstiness - b.burstiness) / 2;
+  const memory = (a.autocorrelation - b.autocorrelation) / 4;
+  return Math.sqrt(speed * speed + jitter * jitter + burst * burst + memory * memory);
+}
+
+/**
+ * Score how alike the swarm's ITT fingerprints are (0-100).
+ * Each flagged agent (human typing, relay) pulls the score down proportionally.
+ */
+export function scoreRhythmSimilarity(fingerprints: IttFingerprint[]): number {
+  if (fingerprints.length === 0) return 0;
+  
+  let similarity = 0;
+  let comparisons = 0;
+  for (let i = 0; i < fingerprints.length; i++) {
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      similarity += Math.max(0, 1 - fingerprintDistance(fingerprints[i], fingerprints[j]));
+      comparisons++;
+    }
+  }
+  
+  // A lone fingerprint can't be compared; judge it on its flags alone
+  const avgSimilarity = comparisons > 0 ? similarity / comparisons : 1;
+  const flaggedFraction = fingerprints.filter(f => f.flags.length > 0).length / fingerprints.length;
+  
+  return avgSimilarity * 100 * (1 - flaggedFraction);
+}
@@ -0,0 +1,229 @@
+/**
+ * Scorer Registry and Profiles
+ * 
+ * The analyzer's built-in scorers, custom scorers registered by a team, and
+ * the scoring profiles that weight them and set the verdict thresholds. A
+ * verification resolves a profile (plus per-request on/off switches) once,
+ * and records which profile and scorer versions produced its score.
+ */
+
+import type {
+  Agent,
+  Challenge,
+  ChallengeResponse,
+  ScoringRecord,
+  SwarmVerification,
+  VerdictThresholds,
+} from '../types';
+
+export type BuiltinScorer = keyof SwarmVerification['scores'];
+
+/** What a custom scorer sees */
+export interface ScorerContext {
+  agents: Agent[];
+  challenges: Challenge[]; // One per round
+  responses: ChallengeResponse[];
+  scores: SwarmVerification['scores']; // Built-in scores, for scorers that build on them
+}
+
+export interface Scorer {
+  name: string;
+  version: string;
+  weight: number; // Used when the profile doesn't weight this scorer
+  description?: string;
+  score(context: ScorerContext): number | undefined; // 0-100; undefined when it doesn't apply
+}
+
+export interface ScoringProfile {
+  name: string;
+  description: string;
+  weights?: Record<string, number>; // Over the scorers' own weights; 0 turns a scorer off
+  thresholds?: Partial<VerdictThresholds>;
+}
+
+/** A profile name plus per-request switches */
+export interface ScoringSelection {
+  profile?: string;
+  scorers?: Record<string, boolean>;
+}
+
+export interface ResolvedScoring extends ScoringRecord {
+  custom: Scorer[]; // Enabled custom scorers
+}
+
+export const DEFAULT_PROFILE = 'default';
+
+export const DEFAULT_THRESHOLDS: VerdictThresholds = { genuine: 70, likelyFake: 40 };
+
+// Built-in scorers: version (bumped when a scorer's behavior changes) and weight
+const BUILTIN_SCORERS: Record<BuiltinScorer, { version: string; weight: number }> = {
+  responseTime: { version: '1.0', weight: 0.20 },
+  timeVariance: { version: '1.0', weight: 0.20 },
+  tailBehavior: { version: '1.0', weight: 0.15 },
+  consistency: { version: '1.1', weight: 0.25 },
+  participation: { version: '1.0', weight: 0.20 },
+  tokenRhythm: { version: '1.0', weight: 0.20 },   // Streamed responses only
+  batch: { version: '1.0', weight: 0.20 },         // Batch challenges only
+  correctness: { version: '1.0', weight: 0.20 },   // Keyed challenges only
+  temporal: { version: '1.0', weight: 0.25 },      // Consistency sessions only
+  clusters: { version: '1.1', weight: 0.15 },      // 3+ answering agents
+  content: { version: '1.0', weight: 0.15 },
+};
+
+const customScorers = new Map<string, Scorer>();
+
+const profiles = new Map<string, ScoringProfile>([
+  [DEFAULT_PROFILE, {
+    name: DEFAULT_PROFILE,
+    description: 'Every scorer at its own weight; genuine at 70, likely fake below 40',
+  }],
+  ['strict', {
+    name: 'strict',
+    description: 'Answers over speed, and a higher bar for a genuine verdict',
+    weights: { correctness: 0.30, content: 0.25, consistency: 0.30 },
+    thresholds: { genuine: 80, likelyFake: 50 },
+  }],
+  ['slow-backends', {
+    name: 'slow-backends',
+    description: 'For swarms behind slow models: raw speed hardly counts, evenness still does',
+    weights: { responseTime: 0.05, tailBehavior: 0.10 },
+  }],
+]);
+
+function isBuiltin(name: string): name is BuiltinScorer {
+  return name in BUILTIN_SCORERS;
+}
+
+/**
+ * Register a custom scorer. It is on in every profile, at its own weight,
+ * unless a profile or request turns it off.
+ */
+export function registerScorer(scorer: Scorer): void {
+  if (isBuiltin(scorer.name)) {
+    throw new Error(`'${scorer.name}' is a built-in scorer`);
+  }
+  customScorers.set(scorer.name, scorer);
+}
+
+/**
+ * Register (or replace) a scoring profile
+ */
+export function registerProfile(profile: ScoringProfile): void {
+  for (const name of Object.keys(profile.weights ?? {})) {
+    if (!isBuiltin(name) && !customScorers.has(name)) {
+      throw new Error(`Profile '${profile.name}' weights unknown scorer '${name}'`);
+    }
+  }
+  profiles.set(profile.name, profile);
+}
+
+/**
+ * Every profile and scorer, for listing
+ */
+export function listScoring(): {
+  profiles: ScoringProfile[];
+  scorers: { name: string; version: string; weight: number; builtin: boolean; description?: string }[];
+} {
+  return {
+    profiles: [...profiles.values()],
+    scorers: [
+      ...Object.entries(BUILTIN_SCORERS).map(([name, s]) => ({ name, ...s, builtin: true })),
+      ...[...customScorers.values()].map(s => ({
+        name: s.name,
+        version: s.version,
+        weight: s.weight,
+        builtin: false,
+        description: s.description,
+      })),
+    ],
+  };
+}
+
+/**
+ * Resolve a profile and per-request switches into weights and thresholds.
+ * Throws on an unknown profile or scorer name.
+ */
+export function resolveScoring(selection: ScoringSelection = {}): ResolvedScoring {
+  const name = selection.profile ?? DEFAULT_PROFILE;
+  const profile = profiles.get(name);
+  if (!profile) throw new Error(`Unknown scoring profile '${name}'`);
+  
+  const ownWeight = (scorer: string) => isBuiltin(scorer)
+    ? BUILTIN_SCORERS[scorer].weight
+    : customScorers.get(scorer)!.weight;
+  
+  const weights: Record<string, number> = {};
+  for (const scorer of [...Object.keys(BUILTIN_SCORERS), ...customScorers.keys()]) {
+    weights[scorer] = profile.weights?.[scorer] ?? ownWeight(scorer);
+  }
+  for (const [scorer, on] of Object.entries(selection.scorers ?? {})) {
+    if (!(scorer in weights)) throw new Error(`Unknown scorer '${scorer}'`);
+    // Turning on a scorer the profile turned off restores its own weight
+    weights[scorer] = on ? weights[scorer] || ownWeight(scorer) : 0;
+  }
+  
+  const enabled = Object.keys(weights).filter(scorer => weights[scorer] > 0);
+  return {
+    profile: name,
+    weights: Object.fromEntries(enabled.map(scorer => [scorer, weights[scorer]])),
+    thresholds: { ...DEFAULT_THRESHOLDS, ...profile.thresholds },
+    versions: Object.fromEntries(enabled.map(scorer => [
+      scorer,
+      isBuiltin(scorer) ? BUILTIN_SCORERS[scorer].version : customScorers.get(scorer)!.version,
+    ])),
+    custom: enabled.filter(scorer => !isBuiltin(scorer)).map(scorer => customScorers.get(scorer)!),
+  };
+}
+
+/**
+ * Run the enabled custom scorers. A scorer that throws is left out, and its
+ * error returned, rather than failing the verification. Nothing is logged
+ * here: bootstrap resampling runs the scorers hundreds of times.
+ */
+export function runCustomScorers(
+  scoring: ResolvedScoring,
+  context: ScorerContext
+): { scores?: Record<string, number>; errors?: Record<string, string> } {
+  const scores: Record<string, number> = {};
+  const errors: Record<string, string> = {};
+  for (const scorer of scoring.custom) {
+    try {
+      const score = scorer.score(context);
+      if (score !== undefined && Number.isFinite(score)) scores[scorer.name] = Math.max(0, Math.min(100, score));
+    } catch (error) {
+      errors[scorer.name] = (error as Error).message;
+    }
+  }
+  return {
+    scores: Object.keys(scores).length > 0 ? scores : undefined,
+    errors: Object.keys(errors).length > 0 ? errors : undefined,
+  };
+}
+
+/**
+ * Weighted average of the enabled scores. Scores that don't apply (e.g. no
+ * streamed responses) are left out and the remaining weights renormalized.
+ */
+export function combineScores(scoring: ScoringRecord, scores: Record<string, number | undefined>): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const [scorer, weight] of Object.entries(scoring.weights)) {
+    const score = scores[scorer];
+    if (score === undefined) continue;
+    weightedSum += score * weight;
+    totalWeight += weight;
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+}
+
+/**
+ * The record of a resolved scoring, as stored with a verification
+ */
+export function scoringRecord(scoring: ResolvedScoring): ScoringRecord {
+  return {
+    profile: scoring.profile,
+    weights: scoring.weights,
+    thresholds: scoring.thresholds,
+    versions: scoring.versions,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Verification Sessions
+ * 
+ * Runs several rounds of fresh challenges against the same swarm so the
+ * analyzer gets a latency distribution per agent instead of one sample.
+ * 
+ * Consistency sessions are temporal: every round asks the same question (or
+ * a paraphrase of it) at a random instant within a window, so each agent
+ * builds a history of its own answers and latencies to compare over time.
+ */
+
+import type { Agent, NetworkCalibration, SessionRound } from '../types';
+import { generateChallenge, pickPromptFamily, type ChallengeOptions } from './challenger';
+import { dispatchChallenge } from './dispatcher';
+
+export interface SessionOptions {
+  rounds: number;
+  challengeType?: 'parallel' | 'distributed' | 'consistency';
+  challengeOptions?: ChallengeOptions;
+  timeoutMs?: number;
+  spacingMs?: number; // Pause between rounds, randomized ±50% so agents can't anticipate
+  windowMs?: number; // Consistency sessions: rounds start at random instants within this window
+  callbackUrl?: string; // Offer callback delivery every round
+  commitReveal?: boolean; // Commit-reveal every round
+}
+
+export interface SessionResult {
+  rounds: SessionRound[];
+  calibration: NetworkCalibration[];
+  windowMs?: number; // Consistency sessions only
+}
+
+export const DEFAULT_SPACING_MS = 1000;
+export const MAX_SPACING_MS = 60 * 1000;
+export const MAX_ROUNDS = 50;
+export const MAX_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fisher-Yates shuffle (copy)
+ */
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Random round start offsets within a window: the first round starts at 0,
+ * the rest are uniform draws, sorted
+ */
+function scheduleRounds(count: number, windowMs: number): number[] {
+  const offsets = Array.from({ length: count - 1 }, () => Math.random() * windowMs);
+  return [0, ...offsets.sort((a, b) => a - b)];
+}
+
+/**
+ * Run a multi-round session.
+ * Every round is a new challenge (new nonces, and a new prompt unless the
+ * session is temporal), dispatched to the agents in a random order. The
+ * network is calibrated once, in the first round.
+ */
+export async function runSession(agents: Agent[], options: SessionOptions): Promise<SessionResult> {
+  const rounds: SessionRound[] = [];
+  let calibration: NetworkCalibration[] = [];
+  const roundCount = Math.max(1, Math.min(options.rounds, MAX_ROUNDS));
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const spacingMs = Math.max(0, Math.min(options.spacingMs ?? DEFAULT_SPACING_MS, MAX_SPACING_MS));
+  const temporal = options.challengeType === 'consistency';
+  const windowMs = Math.min(options.windowMs ?? spacingMs * (roundCount - 1), MAX_WINDOW_MS);
+  const schedule = temporal ? scheduleRounds(roundCount, windowMs) : [];
+  const challengeOptions = temporal
+    ? { ...options.challengeOptions, family: options.challengeOptions?.family ?? pickPromptFamily() }
+    : options.challengeOptions;
+  
+  if (temporal) {
+    console.log(`🔁 Temporal session: ${roundCount} rounds at random times over ${(windowMs / 1000).toFixed(0)}s ("${challengeOptions?.family}" prompts)`);
+  } else {
+    console.log(`🔁 Session: ${roundCount} rounds, ~${spacingMs}ms apart`);
+  }
+  
+  const sessionStart = Date.now();
+  for (let round = 1; round <= roundCount; round++) {
+    if (temporal) {
+      // A round that overran its slot pushes the next one straight out
+      const wait = sessionStart + schedule[round - 1] - Date.now();
+      if (wait > 0) await new Promise(r => setTimeout(r, wait));
+    } else if (round > 1 && spacingMs > 0) {
+      await new Promise(r => setTimeout(r, spacingMs * (0.5 + Math.random())));
+    }
+    
+    const challenge = generateChallenge(
+      options.challengeType ?? 'parallel',
+      agents.map(a => a.id),
+      timeoutMs,
+      challengeOptions
+    );
+    
+    console.log(`\n── Round ${round}/${roundCount}`);
+    const startedAt = Date.now();
+    const result = await dispatchChallenge(shuffle(agents), challenge, timeoutMs, {
+      calibrate: round === 1,
+      callbackUrl: options.callbackUrl,
+      commitReveal: options.commitReveal,
+    });
+    if (round === 1) calibration = result.calibration;
+    
+    rounds.push({ round, challenge, responses: result.responses, startedAt });
+  }
+  
+  return { rounds, calibration, windowMs: temporal ? windowMs : undefined };
+}
@@ -0,0 +1,258 @@
+/**
+ * Text Similarity
+ * 
+ * How alike two answers are, for the consistency scorer and any other scorer
+ * that compares answers. Text is normalized first (Unicode forms, accents,
+ * punctuation, number formats), so "Calm, cool, vast" matches "calm cool vast"
+ * and "91." matches "91". Similarity blends word overlap (TF-IDF weighted
+ * when a corpus is given), character n-grams for spelling and inflection, and
+ * word-level edit distance for order. Everything runs locally.
+ */
+
+/** Pre-computed features of one text */
+export interface TextFeatures {
+  id: number;                  // Cache key of the text
+  normalized: string;
+  tokens: string[];
+  counts: Map<string, number>; // Token counts
+  ngrams: Map<string, number>; // Character n-gram counts
+}
+
+/** Inverse document frequency per token, from `inverseDocumentFrequency` */
+export type IdfWeights = Map<string, number>;
+
+export const NGRAM_SIZE = 3;
+
+// Edit distance is quadratic; longer answers are compared on their opening words
+const MAX_EDIT_TOKENS = 100;
+
+// Blend of the three measures
+const SIMILARITY_WEIGHTS = { tokens: 0.4, ngrams: 0.4, edit: 0.2 };
+
+const UNITS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+];
+const TENS = ['twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const NUMBER_WORDS = new Map<string, number>([
+  ...UNITS.map((word, n): [string, number] => [word, n]),
+  ...TENS.map((word, i): [string, number] => [word, (i + 2) * 10]),
+]);
+
+// Answers are compared many times over (every pair, every bootstrap resample)
+const featureCache = new Map<string, TextFeatures>();
+const FEATURE_CACHE_SIZE = 5000;
+const pairCache = new Map<string, number>();
+const PAIR_CACHE_SIZE = 50000;
+let nextFeatureId = 0;
+
+// TF-IDF vectors per weighting, dropped with it
+const weightedVectors = new WeakMap<IdfWeights, Map<number, { vector: Map<string, number>; norm: number }>>();
+
+/**
+ * Canonical form of a written number: no thousands separators, leading
+ * zeros or trailing fractional zeros ("1,000.50" → "1000.5", "007" → "7")
+ */
+export function canonicalNumber(text: string): string {
+  const [whole, fraction = ''] = text.replace(/,/g, '').split('.');
+  const digits = whole.replace(/^0+(?=\d)/, '');
+  const decimals = fraction.replace(/0+$/, '');
+  return decimals ? `${digits}.${decimals}` : digits;
+}
+
+/**
+ * Normalize text for comparison: Unicode compatibility forms folded (full-width
+ * digits, ligatures), accents dropped, lower case, numbers canonical,
+ * punctuation and symbols turned into spaces
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?/g, canonicalNumber)
+    .replace(/[^\p{L}\p{N}.]+/gu, ' ')
+    .replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Words of a text, normalized, with number words as digits ("ninety one" and
+ * "ninety-one" → "91")
+ */
+export function tokenize(text: string): string[] {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  const tokens: string[] = [];
+  
+  for (let i = 0; i < words.length; i++) {
+    const value = NUMBER_WORDS.get(words[i]);
+    if (value === undefined) {
+      tokens.push(words[i]);
+      continue;
+    }
+    const unit = value >= 20 ? NUMBER_WORDS.get(words[i + 1] ?? '') : undefined;
+    if (unit !== undefined && unit > 0 && unit < 10) {
+      tokens.push(String(value + unit));
+      i++;
+    } else {
+      tokens.push(String(value));
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Character n-gram counts of the normalized text, padded so word edges count
+ */
+export function charNgrams(text: string, n: number = NGRAM_SIZE): Map<string, number> {
+  const padded = ` ${normalizeText(text)} `;
+  const grams = new Map<string, number>();
+  for (let i = 0; i + n <= padded.length; i++) {
+    const gram = padded.slice(i, i + n);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Normalized text, tokens and n-grams of a text (cached)
+ */
+export function textFeatures(text: string): TextFeatures {
+  let features = featureCache.get(text);
+  if (!features) {
+    if (featureCache.size >= FEATURE_CACHE_SIZE) featureCache.clear();
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+    features = { id: nextFeatureId++, normalized: tokens.join(' '), tokens, counts, ngrams: charNgrams(text) };
+    featureCache.set(text, features);
+  }
+  return features;
+}
+
+/**
+ * Levenshtein distance between two strings or token sequences
+ */
+export function editDistance(a: string | string[], b: string | string[]): number {
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edit similarity, 0-1: one minus the edit distance over the longer length
+ */
+export function editSimilarity(a: string | string[], b: string | string[]): number {
+  const longest = Math.max(a.length, b.length);
+  return longest > 0 ? 1 - editDistance(a, b) / longest : 1;
+}
+
+/**
+ * Dice similarity of two n-gram count maps, 0-1
+ */
+export function ngramSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of a) {
+    shared += Math.min(count, b.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of b.values()) total += count;
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+/**
+ * Smoothed inverse document frequency of each token over a set of texts:
+ * ln((1 + N) / (1 + df)) + 1. A token in every text weighs 1, rarer ones more.
+ */
+export function inverseDocumentFrequency(texts: string[]): IdfWeights {
+  const documents = new Map<string, number>();
+  for (const text of texts) {
+    for (const token of new Set(textFeatures(text).tokens)) {
+      documents.set(token, (documents.get(token) ?? 0) + 1);
+    }
+  }
+  return new Map([...documents].map(([token, df]) => [token, Math.log((1 + texts.length) / (1 + df)) + 1]));
+}
+
+/**
+ * A text's TF-IDF vector and its norm (cached per weighting)
+ */
+function weightedVector(features: TextFeatures, idf?: IdfWeights): { vector: Map<string, number>; norm: number } {
+  let vectors = idf ? weightedVectors.get(idf) : undefined;
+  const cached = vectors?.get(features.id);
+  if (cached) return cached;
+  
+  const vector = new Map([...features.counts].map(([token, count]) => [token, count * (idf?.get(token) ?? 1)]));
+  const weighted = { vector, norm: Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0)) };
+  if (idf) {
+    if (!vectors) weightedVectors.set(idf, vectors = new Map());
+    vectors.set(features.id, weighted);
+  }
+  return weighted;
+}
+
+/**
+ * Cosine similarity of two texts' TF-IDF vectors, 0-1. Without weights (or
+ * for tokens outside the corpus) every token weighs 1.
+ */
+export function tokenCosine(a: TextFeatures, b: TextFeatures, idf?: IdfWeights): number {
+  const va = weightedVector(a, idf);
+  const vb = weightedVector(b, idf);
+  const [small, large] = va.vector.size <= vb.vector.size ? [va.vector, vb.vector] : [vb.vector, va.vector];
+  let dot = 0;
+  for (const [token, weight] of small) dot += weight * (large.get(token) ?? 0);
+  const magnitude = va.norm * vb.norm;
+  return magnitude > 0 ? dot / magnitude : 0;
+}
+
+/**
+ * Look up or compute a per-pair value. Bootstrap resamples compare the same
+ * pairs again and again.
+ */
+function cachedPair(kind: string, fa: TextFeatures, fb: TextFeatures, compute: () => number): number {
+  const key = `${kind}${Math.min(fa.id, fb.id)},${Math.max(fa.id, fb.id)}`;
+  let value = pairCache.get(key);
+  if (value === undefined) {
+    if (pairCache.size >= PAIR_CACHE_SIZE) pairCache.clear();
+    value = compute();
+    pairCache.set(key, value);
+  }
+  return value;
+}
+
+/**
+ * The corpus-independent part of the similarity: n-grams and edit distance
+ */
+function surfaceSimilarity(fa: TextFeatures, fb: TextFeatures): number {
+  return cachedPair('s', fa, fb, () => SIMILARITY_WEIGHTS.ngrams * ngramSimilarity(fa.ngrams, fb.ngrams)
+    + SIMILARITY_WEIGHTS.edit * editSimilarity(fa.tokens.slice(0, MAX_EDIT_TOKENS), fb.tokens.slice(0, MAX_EDIT_TOKENS)));
+}
+
+/**
+ * Overall similarity of two texts, 0-1: TF-IDF word overlap, character
+ * n-grams and word-order edit similarity, blended. Pass `idf` from the
+ * answers being compared to weight distinctive words over common ones.
+ */
+export function textSimilarity(a: string, b: string, idf?: IdfWeights): number {
+  if (a === b) return 1;
+  const fa = textFeatures(a);
+  const fb = textFeatures(b);
+  if (fa.normalized === fb.normalized) return 1;
+  if (fa.tokens.length === 0 || fb.tokens.length === 0) return 0;
+  
+  const cosine = idf ? tokenCosine(fa, fb, idf) : cachedPair('c', fa, fb, () => tokenCosine(fa, fb));
+  return SIMILARITY_WEIGHTS.tokens * cosine + surfaceSimilarity(fa, fb);
+}
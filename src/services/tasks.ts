@@ -0,0 +1,445 @@
+/**
+ * Procedural Tasks
+ * 
+ * Parameterized task templates. Every challenge gets a freshly generated
+ * prompt, so answers can't be looked up from a precomputed table, and every
+ * task comes with a validator the analyzer uses to check the answer.
+ */
+
+import { randomInt } from 'crypto';
+import type { ChallengeSegment, SegmentCombine, ValidatorId } from '../types';
+
+export interface GeneratedTask {
+  template: string;
+  prompt: string;
+  validator: ValidatorId;
+  expected: string; // For 'nonce_transform', the transform name
+}
+
+interface TaskTemplate {
+  id: string;
+  nonceBound?: boolean; // Answer differs per agent
+  generate(): GeneratedTask;
+}
+
+const SYLLABLES = ['ka', 'lo', 'mi', 'ru', 'te', 'vo', 'zi', 'na', 'pe', 'sha', 'dor', 'lin', 'qua', 'bex'];
+
+function pick<T>(items: readonly T[]): T {
+  return items[randomInt(items.length)];
+}
+
+/** A pronounceable nonsense word, so it can't be in any lookup table */
+function randomWord(): string {
+  const count = 3 + randomInt(2);
+  return Array.from({ length: count }, () => pick(SYLLABLES)).join('');
+}
+
+// Stands for the agent's own nonce in a nonce-bound prompt; filled in per agent
+// at dispatch, so the task can't be answered before its nonce exists
+export const NONCE_PLACEHOLDER = '{nonce}';
+
+// Transforms for nonce-bound tasks: prompt wording and the function itself.
+// The wording is also what solveTask() recognizes.
+const NONCE_TRANSFORMS: Record<string, { describe: string; apply: (nonce: string) => string; caseSensitive?: boolean }> = {
+  reverse: {
+    describe: `Write this nonce backwards: ${NONCE_PLACEHOLDER}`,
+    apply: nonce => [...nonce].reverse().join(''),
+  },
+  upper_reverse: {
+    describe: `Write this nonce backwards in uppercase: ${NONCE_PLACEHOLDER}`,
+    apply: nonce => [...nonce].reverse().join('').toUpperCase(),
+    caseSensitive: true,
+  },
+  vowel_case: {
+    describe: `Reverse this nonce and uppercase its vowels (a, e, i, o, u): ${NONCE_PLACEHOLDER}`,
+    apply: nonce => [...nonce.toLowerCase()].reverse().join('').replace(/[aeiou]/g, v => v.toUpperCase()),
+    caseSensitive: true,
+  },
+  every_other: {
+    describe: `Write every other character of this nonce, starting with the first: ${NONCE_PLACEHOLDER}`,
+    apply: nonce => [...nonce].filter((_, i) => i % 2 === 0).join(''),
+  },
+  digit_sum: {
+    describe: `Add up the decimal digits (0-9) in this nonce: ${NONCE_PLACEHOLDER}`,
+    apply: nonce => String([...nonce].filter(c => /[0-9]/.test(c)).reduce((sum, c) => sum + Number(c), 0)),
+  },
+};
+
+const TEMPLATES: TaskTemplate[] = [
+  {
+    id: 'arithmetic',
+    generate() {
+      const op = pick(['+', '-', '*'] as const);
+      const a = op === '*' ? 11 + randomInt(89) : 100 + randomInt(900);
+      const b = op === '*' ? 11 + randomInt(89) : 100 + randomInt(900);
+      const answer = op === '+' ? a + b : op === '-' ? a - b : a * b;
+      return {
+        template: 'arithmetic',
+        prompt: `What is ${a} ${op} ${b}? Reply with just the number.`,
+        validator: 'numeric',
+        expected: String(answer),
+      };
+    },
+  },
+  {
+    id: 'string_reversal',
+    generate() {
+      const word = randomWord();
+      return {
+        template: 'string_reversal',
+        prompt: `Reverse the string '${word}'. Reply with just the reversed string.`,
+        validator: 'exact',
+        expected: [...word].reverse().join(''),
+      };
+    },
+  },
+  {
+    id: 'sorting',
+    generate() {
+      const numbers = Array.from({ length: 5 + randomInt(3) }, () => randomInt(1, 1000));
+      return {
+        template: 'sorting',
+        prompt: `Sort these numbers in ascending order: ${numbers.join(', ')}. Reply with the numbers separated by commas.`,
+        validator: 'list',
+        expected: [...numbers].sort((a, b) => a - b).join(', '),
+      };
+    },
+  },
+  {
+    id: 'format_conversion',
+    generate() {
+      const record = { name: randomWord(), count: randomInt(1, 500), active: randomInt(2) === 1 };
+      return {
+        template: 'format_conversion',
+        prompt: `Convert to a JSON object: name=${record.name}; count=${record.count}; active=${record.active}. Reply with just the JSON.`,
+        validator: 'json',
+        expected: JSON.stringify(record),
+      };
+    },
+  },
+  {
+    id: 'nonce_transform',
+    nonceBound: true,
+    generate() {
+      const transform = pick(Object.keys(NONCE_TRANSFORMS));
+      return {
+        template: 'nonce_transform',
+        prompt: `${NONCE_TRANSFORMS[transform].describe}. Reply with just the result.`,
+        validator: 'nonce_transform',
+        expected: transform,
+      };
+    },
+  },
+];
+
+export interface DistributedTask {
+  template: string;
+  prompt: string; // The whole task
+  segments: ChallengeSegment[];
+  combine: SegmentCombine;
+  validator: ValidatorId; // For the reassembled answer
+  expected: string;
+}
+
+const VOWELS = /[aeiou]/g;
+
+function rot13(text: string): string {
+  return text.replace(/[a-z]/gi, c => {
+    const base = c <= 'Z' ? 65 : 97;
+    return String.fromCharCode((c.charCodeAt(0) - base + 13) % 26 + base);
+  });
+}
+
+interface DistributedTemplate {
+  id: string;
+  combine: SegmentCombine;
+  describe: (segments: number) => string;
+  input: () => string;
+  prompt: (input: string) => string;
+  solve: (input: string) => string;
+}
+
+// One task split into per-agent segments. The wording of each segment prompt
+// is also what solveTask() recognizes.
+const DISTRIBUTED_TEMPLATES: DistributedTemplate[] = [
+  {
+    id: 'vowel_count',
+    combine: 'sum',
+    describe: n => `Count the vowels in a text split into ${n} segments`,
+    input: () => Array.from({ length: 6 }, randomWord).join(' '),
+    prompt: input => `Count the vowels (a, e, i, o, u) in '${input}'. Reply with just the number.`,
+    solve: input => String(input.match(VOWELS)?.length ?? 0),
+  },
+  {
+    id: 'number_sum',
+    combine: 'sum',
+    describe: n => `Add up a list of numbers split into ${n} segments`,
+    input: () => Array.from({ length: 6 }, () => randomInt(10, 1000)).join(', '),
+    prompt: input => `Add up these numbers: ${input}. Reply with just the number.`,
+    solve: input => String(input.split(', ').reduce((sum, n) => sum + Number(n), 0)),
+  },
+  {
+    id: 'rot13',
+    combine: 'concat',
+    describe: n => `ROT13-encode a string split into ${n} segments`,
+    input: () => randomWord() + randomWord(),
+    prompt: input => `Apply ROT13 to the string '${input}'. Reply with just the result.`,
+    solve: rot13,
+  },
+  {
+    id: 'reverse',
+    combine: 'concat',
+    describe: n => `Spell a string backwards, split into ${n} segments`,
+    input: () => randomWord(),
+    prompt: input => `Spell the string '${input}' backwards. Reply with just the result.`,
+    solve: input => [...input].reverse().join(''),
+  },
+];
+
+/**
+ * Reassemble segment answers (in segment order) into the answer to the whole
+ * task. Undefined while any segment is missing.
+ */
+export function reassemble(combine: SegmentCombine, answers: (string | undefined)[]): string | undefined {
+  if (answers.some(a => a === undefined)) return undefined;
+  if (combine === 'sum') {
+    return String(answers.reduce((sum, a) => sum + (firstNumber(a!) ?? NaN), 0));
+  }
+  return answers.map(a => a!.trim().replace(/^["'`]+|["'`.]+$/g, '')).join('');
+}
+
+/**
+ * Generate a distributed task: one segment per agent, each with different
+ * content, so agents can't share answers
+ */
+export function generateDistributedTask(agentIds: string[]): DistributedTask {
+  const template = pick(DISTRIBUTED_TEMPLATES);
+  const inputs = agentIds.map(() => template.input());
+  const segments = agentIds.map((agentId, index) => ({
+    agentId,
+    index,
+    prompt: template.prompt(inputs[index]),
+    validator: (template.combine === 'sum' ? 'numeric' : 'exact') as ValidatorId,
+    expected: template.solve(inputs[index]),
+  }));
+  
+  return {
+    template: template.id,
+    prompt: template.describe(agentIds.length),
+    segments,
+    combine: template.combine,
+    validator: template.combine === 'sum' ? 'numeric' : 'exact',
+    expected: reassemble(template.combine, segments.map(s => s.expected))!,
+  };
+}
+
+/**
+ * Generate a fresh task.
+ * Nonce-bound tasks are left out unless asked for: every agent's correct
+ * answer differs, so they can't be compared across a swarm on their own.
+ */
+export function generateTask(options: { nonceBound?: boolean } = {}): GeneratedTask {
+  const pool = TEMPLATES.filter(t => options.nonceBound || !t.nonceBound);
+  return pick(pool).generate();
+}
+
+/**
+ * Generate a task whose answer is derived from the agent's nonce
+ */
+export function generateNonceTask(): GeneratedTask {
+  return pick(TEMPLATES.filter(t => t.nonceBound)).generate();
+}
+
+/**
+ * Fill an agent's nonce into a prompt (prompts without the placeholder are unchanged)
+ */
+export function bindNonce(prompt: string, nonce: string): string {
+  return prompt.split(NONCE_PLACEHOLDER).join(nonce);
+}
+
+/**
+ * Generate `count` tasks, cycling through templates so a batch mixes them
+ */
+export function generateTasks(count: number, options: { nonceBound?: boolean } = {}): GeneratedTask[] {
+  const pool = TEMPLATES.filter(t => options.nonceBound || !t.nonceBound);
+  const offset = randomInt(pool.length);
+  const tasks = Array.from({ length: count }, (_, i) => pool[(offset + i) % pool.length].generate());
+  
+  // Shuffle so template order doesn't give away the answer format
+  for (let i = tasks.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [tasks[i], tasks[j]] = [tasks[j], tasks[i]];
+  }
+  return tasks;
+}
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^["'`]+|["'`.!]+$/g, '');
+}
+
+const NUMBER_PATTERN = /-?\d+(\.\d+)?/g;
+
+function allNumbers(text: string): number[] {
+  return (text.replace(/,(?=\d{3}\b)/g, '').match(NUMBER_PATTERN) ?? []).map(Number);
+}
+
+function firstNumber(text: string): number | undefined {
+  return allNumbers(text)[0];
+}
+
+/** Expected number with optional tolerance: "32" or "3.14±0.01" */
+function parseTolerance(expected: string): { value: number; tolerance: number } {
+  const [value, tolerance] = expected.split('±');
+  return { value: Number(value), tolerance: tolerance !== undefined ? Math.abs(Number(tolerance)) : 1e-9 };
+}
+
+/** Expected word count: "3" or a range "8-12" */
+function parseRange(expected: string): [number, number] {
+  const [min, max] = expected.split('-').map(Number);
+  return [min, max ?? min];
+}
+
+function countWords(text: string): number {
+  // Punctuation-only tokens (a dash between words) aren't words
+  return text.split(/\s+/).filter(t => /[\p{L}\p{N}]/u.test(t)).length;
+}
+
+function listItems(text: string): string[] {
+  return text.split(/[\s,]+/).map(normalizeText).filter(Boolean);
+}
+
+const MAX_JSON_ANSWER = 4096;
+
+/**
+ * The first JSON object or array embedded in a text (models like code fences).
+ * One pass: each balanced top-level {...} or [...] span (brackets inside
+ * strings ignored) is parsed as it closes.
+ */
+function firstJson(text: string): unknown {
+  const body = text.slice(0, MAX_JSON_ANSWER);
+  const closers: string[] = [];
+  let start = 0;
+  let inString = false;
+  
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '{' || char === '[') {
+      if (closers.length === 0) start = i;
+      closers.push(char === '{' ? '}' : ']');
+    } else if (closers.length === 0) {
+      continue;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '}' || char === ']') {
+      if (closers.pop() !== char) {
+        // Mismatched bracket: not JSON, look for the next opening one
+        closers.length = 0;
+        continue;
+      }
+      if (closers.length > 0) continue;
+      try {
+        return JSON.parse(body.slice(start, i + 1));
+      } catch {
+        // Balanced but not JSON; keep scanning
+      }
+    }
+  }
+  return undefined;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length
+    && keysA.every(k => deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+const VALIDATORS: Record<ValidatorId, (answer: string, expected: string, nonce?: string) => boolean> = {
+  exact: (answer, expected) => normalizeText(answer) === normalizeText(expected),
+  numeric: (answer, expected) => {
+    // Any number in the answer: "World War 2 ended in 1945" is right about 1945
+    const { value: want, tolerance } = parseTolerance(expected);
+    return allNumbers(answer).some(value => Math.abs(value - want) <= tolerance);
+  },
+  word_count: (answer, expected) => {
+    const [min, max] = parseRange(expected);
+    const words = countWords(answer);
+    return words >= min && words <= max;
+  },
+  regex: (answer, expected) => {
+    try {
+      return new RegExp(expected, 'i').test(answer.trim());
+    } catch {
+      // A malformed pattern in a task definition fails the answer, not the run
+      return false;
+    }
+  },
+  list: (answer, expected) => {
+    const got = listItems(answer);
+    const want = listItems(expected);
+    return got.length === want.length && got.every((item, i) => item === want[i]);
+  },
+  json: (answer, expected) => deepEqual(firstJson(answer), JSON.parse(expected)),
+  nonce_transform: (answer, expected, nonce) => {
+    const transform = NONCE_TRANSFORMS[expected];
+    if (!transform || nonce === undefined) return false;
+    const got = answer.trim().replace(/^["'`]+|["'`.]+$/g, '');
+    const want = transform.apply(nonce);
+    // Case only matters when the task asks for it
+    return transform.caseSensitive ? got === want : got.toLowerCase() === want.toLowerCase();
+  },
+};
+
+/**
+ * Check an answer with a validator. `nonce` is the one issued to the answering agent.
+ */
+export function checkAnswer(validator: ValidatorId, answer: string, expected: string, nonce?: string): boolean {
+  return VALIDATORS[validator](answer, expected, nonce);
+}
+
+/**
+ * Whether a validator's expected answer depends on the agent's nonce
+ */
+export function isNonceBound(validator: ValidatorId): boolean {
+  return validator === 'nonce_transform';
+}
+
+/**
+ * Reference solver for generated tasks, standing in for an LLM in the test
+ * responders. Returns undefined for prompts no template produced.
+ */
+export function solveTask(prompt: string, nonce: string = ''): string | undefined {
+  let match = prompt.match(/^What is (-?\d+) ([+\-*]) (-?\d+)\?/);
+  if (match) {
+    const [a, op, b] = [Number(match[1]), match[2], Number(match[3])];
+    return String(op === '+' ? a + b : op === '-' ? a - b : a * b);
+  }
+  
+  match = prompt.match(/^Reverse the string '([^']*)'/);
+  if (match) return [...match[1]].reverse().join('');
+  
+  match = prompt.match(/^Sort these numbers in ascending order: ([\d, ]+)\./);
+  if (match) return match[1].split(/,\s*/).map(Number).sort((a, b) => a - b).join(', ');
+  
+  match = prompt.match(/^Convert to a JSON object: name=(\w+); count=(\d+); active=(true|false)\./);
+  if (match) return JSON.stringify({ name: match[1], count: Number(match[2]), active: match[3] === 'true' });
+  
+  for (const template of DISTRIBUTED_TEMPLATES) {
+    const input = template.prompt('\u0000').split('\u0000');
+    if (prompt.startsWith(input[0]) && prompt.endsWith(input[1])) {
+      return template.solve(prompt.slice(input[0].length, prompt.length - input[1].length));
+    }
+  }
+  
+  const transform = Object.values(NONCE_TRANSFORMS).find(t => prompt.startsWith(`${bindNonce(t.describe, nonce)}.`));
+  if (transform) return transform.apply(nonce);
+  
+  return undefined;
+}
@@ -0,0 +1,57 @@
+/**
+ * Time-Locked Prompt Release
+ * 
+ * Delivering a prompt takes longer to distant agents, so a plain challenge
+ * starts every agent's clock at a different moment. In time-locked mode the
+ * prompt goes out ahead of time, encrypted, and only a short key is sent at
+ * the release instant. The key packet is the same few bytes for every agent,
+ * so network skew at the start is as small as it gets.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+export const SEAL_ALGORITHM = 'A128GCM';
+
+/** An encrypted prompt, as delivered ahead of the release */
+export interface SealedPrompt {
+  alg: typeof SEAL_ALGORITHM;
+  iv: string;   // base64url, 12 bytes
+  data: string; // base64url ciphertext + 16-byte GCM tag
+}
+
+/** What the sealed part of a challenge carries */
+export interface PromptContent {
+  prompt?: string;
+  prompts?: string[];
+}
+
+/**
+ * A fresh release key: 16 random bytes, base64url (22 characters)
+ */
+export function generateReleaseKey(): string {
+  return randomBytes(16).toString('base64url');
+}
+
+/**
+ * Encrypt a challenge's prompt(s) under the release key
+ */
+export function sealPrompt(content: PromptContent, key: string): SealedPrompt {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-128-gcm', Buffer.from(key, 'base64url'), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(content), 'utf8'), cipher.final(), cipher.getAuthTag()]);
+  return { alg: SEAL_ALGORITHM, iv: iv.toString('base64url'), data: data.toString('base64url') };
+}
+
+/**
+ * Decrypt a sealed prompt with the released key. Throws on a wrong key or
+ * tampered ciphertext.
+ */
+export function openSealed(sealed: SealedPrompt, key: string): PromptContent {
+  if (sealed.alg !== SEAL_ALGORITHM) throw new Error(`Unsupported seal algorithm: ${sealed.alg}`);
+  
+  const data = Buffer.from(sealed.data, 'base64url');
+  const decipher = createDecipheriv('aes-128-gcm', Buffer.from(key, 'base64url'), Buffer.from(sealed.iv, 'base64url'));
+  decipher.setAuthTag(data.subarray(data.length - 16));
+  const plain = Buffer.concat([decipher.update(data.subarray(0, data.length - 16)), decipher.final()]);
+  return JSON.parse(plain.toString('utf8')) as PromptContent;
+}
@@ -0,0 +1,132 @@
+/**
+ * Request Timing
+ * 
+ * HTTP requests with a per-phase timing breakdown (DNS, TCP, TLS, TTFB, body),
+ * measured with the monotonic high-resolution clock. fetch() hides connection
+ * setup, and most latency noise comes from there rather than from agents.
+ */
+
+import http from 'node:http';
+import https from 'node:https';
+import type { ResponseTiming } from '../types';
+
+/** Raw performance.now() marks for one request */
+export interface TimingMarks {
+  start: number;
+  dnsDone?: number;
+  connectDone?: number;
+  tlsDone?: number;
+  ready: number;      // Connection usable, request on the wire
+  firstByte?: number; // Response headers received
+  bodyDone?: number;
+}
+
+export interface TimedRequestInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+// Keep-alive pools, shared by every request to the same origin
+const httpAgent = new http.Agent({ keepAlive: true });
+const httpsAgent = new https.Agent({ keepAlive: true });
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Make an HTTP(S) request and record when each phase finished.
+ * Resolves with a standard Response once headers arrive; `marks.bodyDone` is
+ * set when the last body byte arrives, whenever the caller reads it.
+ */
+export function timedRequest(
+  url: string,
+  init: TimedRequestInit = {}
+): Promise<{ response: Response; marks: TimingMarks }> {
+  const target = new URL(url);
+  const client = target.protocol === 'https:' ? https : http;
+  const marks: TimingMarks = { start: performance.now(), ready: 0 };
+  
+  return new Promise((resolve, reject) => {
+    const req = client.request(target, {
+      method: init.method ?? 'GET',
+      headers: init.headers,
+      agent: target.protocol === 'https:' ? httpsAgent : httpAgent,
+      signal: init.signal,
+    }, res => {
+      marks.firstByte = performance.now();
+      
+      const status = res.statusCode ?? 0;
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(res.headers)) {
+        if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+      }
+      
+      const body = NULL_BODY_STATUSES.includes(status) ? null : new ReadableStream<Uint8Array>({
+        start(controller) {
+          res.on('data', (chunk: Buffer) => controller.enqueue(new Uint8Array(chunk)));
+          res.on('end', () => {
+            marks.bodyDone = performance.now();
+            controller.close();
+          });
+          res.on('error', error => controller.error(error));
+        },
+        cancel() {
+          marks.bodyDone ??= performance.now();
+          res.destroy();
+        },
+      });
+      if (!body) {
+        marks.bodyDone = marks.firstByte;
+        res.resume();
+      }
+      
+      resolve({ response: new Response(body, { status, statusText: res.statusMessage, headers }), marks });
+    });
+    
+    req.on('socket', socket => {
+      // A pooled socket is already connected: no setup phases to time
+      if (!socket.connecting) {
+        marks.ready = performance.now();
+        return;
+      }
+      socket.once('lookup', () => { marks.dnsDone = performance.now(); });
+      socket.once('connect', () => {
+        marks.connectDone = performance.now();
+        if (target.protocol !== 'https:') marks.ready = marks.connectDone;
+      });
+      socket.once('secureConnect', () => {
+        marks.tlsDone = performance.now();
+        marks.ready = marks.tlsDone;
+      });
+    });
+    
+    req.on('error', reject);
+    req.end(init.body);
+  });
+}
+
+/**
+ * Turn raw marks into a timing breakdown.
+ * `processedAt` is when the verifier finished with the response.
+ */
+export function toResponseTiming(marks: TimingMarks, processedAt: number = performance.now()): ResponseTiming {
+  const firstByte = marks.firstByte ?? processedAt;
+  const bodyDone = marks.bodyDone ?? firstByte;
+  const ready = marks.ready || marks.tlsDone || marks.connectDone || marks.start;
+  const reusedConnection = marks.connectDone === undefined;
+  
+  const dnsDone = marks.dnsDone ?? marks.start;
+  const connectDone = marks.connectDone ?? dnsDone;
+  
+  return {
+    dnsMs: reusedConnection ? 0 : dnsDone - marks.start,
+    connectMs: reusedConnection ? 0 : connectDone - dnsDone,
+    tlsMs: marks.tlsDone !== undefined ? marks.tlsDone - connectDone : 0,
+    ttfbMs: firstByte - ready,
+    bodyMs: bodyDone - firstByte,
+    processingMs: Math.max(0, processedAt - bodyDone),
+    totalMs: bodyDone - marks.start,
+    reusedConnection,
+  };
+}
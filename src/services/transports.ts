@@ -0,0 +1,371 @@
+/**
+ * Challenge Transports
+ * 
+ * Not every agent exposes a bare SVP route. A transport adapter carries the
+ * SVP challenge over whatever the agent speaks (plain HTTP, A2A JSON-RPC, a
+ * WebSocket channel, an MCP tool) and hands back the agent's SVP answer as a
+ * standard Response (JSON, or SSE for streamed answers) plus timing marks, so
+ * the dispatcher treats every transport the same way.
+ */
+
+import type { ResolvedEndpoint, TransportKind } from '../types';
+import { parseJsonBody, readBodyLimited, ResponseFailure } from './failures';
+import { timedRequest, type TimingMarks } from './timing';
+
+export interface TransportInit {
+  accept: string; // 'application/json' or 'text/event-stream'
+  signal: AbortSignal;
+}
+
+export interface TransportReply {
+  response: Response; // The SVP answer, unwrapped from any envelope
+  marks: TimingMarks;
+}
+
+export interface TransportAdapter {
+  kind: TransportKind;
+  // Untimed setup before the challenge (e.g. an MCP session handshake)
+  prepare?(endpoint: ResolvedEndpoint): Promise<void>;
+  send(endpoint: ResolvedEndpoint, payload: object, init: TransportInit): Promise<TransportReply>;
+}
+
+const USER_AGENT = 'SwarmVerifier/0.1 (pvtclawn.base.eth)';
+const MCP_PROTOCOL_VERSION = '2025-06-18';
+const DEFAULT_MCP_TOOL = 'svp_challenge';
+const SETUP_TIMEOUT_MS = 3000;
+
+interface JsonRpcMessage<T = unknown> {
+  jsonrpc: '2.0';
+  id?: string | number;
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+/** The parts of an A2A message or artifact that SVP uses */
+interface A2aPart {
+  kind?: string; // 'text' | 'data' | 'file'
+  text?: string;
+  data?: unknown;
+}
+
+/** A2A `message/send` result: a reply message, or a task */
+type A2aResult =
+  | { kind: 'message'; parts?: A2aPart[] }
+  | {
+      kind: 'task';
+      status?: { state?: string; message?: { parts?: A2aPart[] } };
+      artifacts?: { parts?: A2aPart[] }[];
+    };
+
+/** MCP `tools/call` result */
+interface McpToolResult {
+  content?: { type: string; text?: string }[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+/** A JSON body as a Response, for handing unwrapped answers to the dispatcher */
+function svpResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+}
+
+/** Whether a value looks like an SVP answer (it must echo the challenge) */
+function isSvpAnswer(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && 'challengeId' in value;
+}
+
+/**
+ * Read a JSON-RPC reply. Streamable HTTP servers may answer with SSE instead
+ * of JSON; then the reply is the event carrying our request id.
+ */
+async function readJsonRpc<T = unknown>(response: Response, id: string | number): Promise<JsonRpcMessage<T>> {
+  const text = await readBodyLimited(response);
+  
+  let message: JsonRpcMessage<T> | undefined;
+  if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    for (const line of text.split('\n')) {
+      if (!line.startsWith('data:')) continue;
+      const event = parseJsonBody<JsonRpcMessage<T>>(line.slice(5).trim());
+      if (event.id === id) message = event;
+    }
+  } else {
+    message = parseJsonBody<JsonRpcMessage<T>>(text);
+  }
+  
+  if (!message) throw new ResponseFailure('malformed_body', 'No JSON-RPC reply in response');
+  if (message.error) {
+    throw new ResponseFailure('rpc_error', `JSON-RPC ${message.error.code}: ${message.error.message}`);
+  }
+  return message;
+}
+
+/**
+ * Plain HTTP POST to the SVP route (PROTOCOL.md)
+ */
+const httpTransport: TransportAdapter = {
+  kind: 'http',
+  send(endpoint, payload, init) {
+    return timedRequest(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': init.accept,
+        'User-Agent': USER_AGENT,
+      },
+      body: JSON.stringify(payload),
+      signal: init.signal,
+    });
+  },
+};
+
+/**
+ * A2A JSON-RPC `message/send`. The challenge goes out as a data part (plus the
+ * prompt as text); the answer is the first data part of the reply message or
+ * of the completed task's artifacts.
+ */
+const a2aTransport: TransportAdapter = {
+  kind: 'a2a',
+  async send(endpoint, payload, init) {
+    const id = crypto.randomUUID();
+    const prompt = (payload as { prompt?: string }).prompt ?? '';
+    
+    const { response, marks } = await timedRequest(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'User-Agent': USER_AGENT,
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        method: 'message/send',
+        params: {
+          message: {
+            kind: 'message',
+            role: 'user',
+            messageId: crypto.randomUUID(),
+            parts: [{ kind: 'text', text: prompt }, { kind: 'data', data: payload }],
+          },
+          configuration: { blocking: true, acceptedOutputModes: ['application/json'] },
+        },
+      }),
+      signal: init.signal,
+    });
+    if (!response.ok) return { response, marks };
+    
+    const { result } = await readJsonRpc<A2aResult>(response, id);
+    if (result?.kind === 'task' && result.status?.state !== 'completed') {
+      throw new ResponseFailure('rpc_error', `A2A task ended in state '${result.status?.state}'`);
+    }
+    
+    const parts: A2aPart[] = result?.kind === 'task'
+      ? [...(result.artifacts ?? []).flatMap(a => a.parts ?? []), ...(result.status?.message?.parts ?? [])]
+      : result?.parts ?? [];
+    
+    const answer = parts.find(p => p.kind === 'data' && isSvpAnswer(p.data))?.data
+      ?? parts.filter(p => p.kind === 'text' && p.text).map(p => {
+        try { return JSON.parse(p.text!); } catch { return undefined; }
+      }).find(isSvpAnswer);
+    if (!answer) throw new ResponseFailure('malformed_body', 'A2A reply has no SVP answer part');
+    
+    return { response: svpResponse(answer), marks };
+  },
+};
+
+// MCP session per endpoint, from the initialize handshake (null = stateless server)
+const mcpSessions = new Map<string, string | null>();
+
+function mcpHeaders(session: string | null | undefined): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json, text/event-stream',
+    'MCP-Protocol-Version': MCP_PROTOCOL_VERSION,
+    'User-Agent': USER_AGENT,
+    ...(session ? { 'Mcp-Session-Id': session } : {}),
+  };
+}
+
+/**
+ * Open an MCP session (initialize + notifications/initialized) unless one is cached
+ */
+async function ensureMcpSession(url: string): Promise<string | null> {
+  const cached = mcpSessions.get(url);
+  if (cached !== undefined) return cached;
+  
+  const signal = AbortSignal.timeout(SETUP_TIMEOUT_MS);
+  const { response } = await timedRequest(url, {
+    method: 'POST',
+    headers: mcpHeaders(null),
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: 'init',
+      method: 'initialize',
+      params: {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: 'swarm-verifier', version: '0.1.0' },
+      },
+    }),
+    signal,
+  });
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new ResponseFailure('http_status', `MCP initialize: HTTP ${response.status}`, response.status);
+  }
+  const session = response.headers.get('Mcp-Session-Id');
+  await readJsonRpc(response, 'init');
+  
+  const initialized = await timedRequest(url, {
+    method: 'POST',
+    headers: mcpHeaders(session),
+    body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+    signal,
+  });
+  await initialized.response.arrayBuffer();
+  
+  mcpSessions.set(url, session);
+  return session;
+}
+
+/**
+ * MCP `tools/call` over streamable HTTP. The tool (default `svp_challenge`)
+ * takes the SVP challenge as its arguments and returns the answer as
+ * structured content, or as JSON in a text content block.
+ */
+const mcpTransport: TransportAdapter = {
+  kind: 'mcp',
+  async prepare(endpoint) {
+    await ensureMcpSession(endpoint.url);
+  },
+  async send(endpoint, payload, init) {
+    const session = await ensureMcpSession(endpoint.url);
+    const id = crypto.randomUUID();
+    
+    const { response, marks } = await timedRequest(endpoint.url, {
+      method: 'POST',
+      headers: mcpHeaders(session),
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        method: 'tools/call',
+        params: { name: endpoint.tool ?? DEFAULT_MCP_TOOL, arguments: payload },
+      }),
+      signal: init.signal,
+    });
+    if (!response.ok) {
+      // The server dropped our session; open a new one next time
+      if (response.status === 404) mcpSessions.delete(endpoint.url);
+      return { response, marks };
+    }
+    
+    const { result } = await readJsonRpc<McpToolResult>(response, id);
+    const text = (result?.content ?? []).find(c => c.type === 'text')?.text;
+    if (result?.isError) {
+      throw new ResponseFailure('rpc_error', `MCP tool error: ${text ?? 'unknown'}`);
+    }
+    
+    const answer = isSvpAnswer(result?.structuredContent)
+      ? result!.structuredContent
+      : text !== undefined ? parseJsonBody<unknown>(text) : undefined;
+    if (!isSvpAnswer(answer)) throw new ResponseFailure('malformed_body', 'MCP tool result has no SVP answer');
+    
+    return { response: svpResponse(answer), marks };
+  },
+};
+
+/**
+ * SVP over a WebSocket: the challenge is one text message; the answer is one
+ * JSON message, or (for streams) `{token}` frames up to a `{done: true}` frame,
+ * re-framed as SSE. Timing follows the HTTP phases: the browser-style
+ * WebSocket API hides DNS, TCP and TLS, so the whole handshake (through the
+ * upgrade) is `connectMs`; `ttfbMs` runs from sending the challenge to the
+ * first frame, and `bodyMs` from there to the last frame.
+ */
+const websocketTransport: TransportAdapter = {
+  kind: 'websocket',
+  send(endpoint, payload, init) {
+    const marks: TimingMarks = { start: performance.now(), ready: 0 };
+    const encoder = new TextEncoder();
+    
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(endpoint.url);
+      let body: ReadableStreamDefaultController<Uint8Array> | undefined;
+      let streaming = false;
+      let finished = false;
+      
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        marks.bodyDone = performance.now();
+        body?.close();
+        socket.close();
+      };
+      const fail = (error: Error) => {
+        if (finished) return;
+        finished = true;
+        socket.close();
+        if (body) body.error(error);
+        else reject(error);
+      };
+      
+      init.signal.addEventListener('abort', () => fail(new DOMException('Aborted', 'AbortError')), { once: true });
+      
+      socket.addEventListener('open', () => {
+        marks.connectDone = performance.now();
+        socket.send(JSON.stringify(payload));
+        marks.ready = performance.now();
+      });
+      
+      socket.addEventListener('message', event => {
+        if (finished) return;
+        const text = String(event.data);
+        let frame: { token?: string; done?: boolean } | undefined;
+        try { frame = JSON.parse(text); } catch { frame = undefined; }
+        
+        if (!body) {
+          marks.firstByte = performance.now();
+          streaming = init.accept === 'text/event-stream' && typeof frame?.token === 'string';
+          const stream = new ReadableStream<Uint8Array>({
+            start(controller) { body = controller; },
+            cancel() { finish(); },
+          });
+          resolve({
+            response: new Response(stream, {
+              headers: { 'Content-Type': streaming ? 'text/event-stream' : 'application/json' },
+            }),
+            marks,
+          });
+        }
+        
+        if (streaming) {
+          body!.enqueue(encoder.encode(`data: ${text}\n\n`));
+          if (frame?.done) finish();
+        } else {
+          body!.enqueue(encoder.encode(text));
+          finish();
+        }
+      });
+      
+      socket.addEventListener('error', () => fail(new Error(`WebSocket error on ${endpoint.url}`)));
+      socket.addEventListener('close', event => {
+        if (body) finish();
+        else fail(new Error(`WebSocket closed (${event.code}) before answering`));
+      });
+    });
+  },
+};
+
+const TRANSPORTS: Record<TransportKind, TransportAdapter> = {
+  http: httpTransport,
+  a2a: a2aTransport,
+  mcp: mcpTransport,
+  websocket: websocketTransport,
+};
+
+/**
+ * The adapter for a transport (default: plain HTTP)
+ */
+export function getTransport(kind: TransportKind = 'http'): TransportAdapter {
+  return TRANSPORTS[kind];
+}
@@ -4,15 +4,54 @@
  * Run this to expose an SVP challenge endpoint.
  */
 
+import { privateKeyToAccount } from 'viem/accounts';
+import type { Hex } from 'viem';
+import { prepareCommit } from './services/contract-client';
+import { svpSigningMessage, svpTypedData } from './services/identity';
+import { solveTask } from './services/tasks';
+import { openSealed, type SealedPrompt } from './services/timelock';
+
 const PORT = process.env.SVP_PORT ? parseInt(process.env.SVP_PORT) : 3500;
 const AGENT_ID = process.env.AGENT_ID || 'test-agent-1';
+const SVP_PATH = process.env.SVP_PATH || '/.well-known/svp-challenge';
+const SIGNER = process.env.SVP_PRIVATE_KEY ? privateKeyToAccount(process.env.SVP_PRIVATE_KEY as Hex) : null;
+const SIGNATURE_TYPE = process.env.SVP_SIGNATURE_TYPE === 'eip712' ? 'eip712' : 'eip191';
+const TOKEN_DELAY_MS = process.env.SVP_TOKEN_DELAY_MS ? parseInt(process.env.SVP_TOKEN_DELAY_MS) : 30;
+// 'callback': acknowledge with 202 and POST the answer to verifier.callback (like a job queue would)
+const DELIVERY = process.env.SVP_DELIVERY === 'callback' ? 'callback' : 'sync';
+
+interface ChallengeBody {
+  challengeId: string;
+  type?: string;
+  prompt?: string;
+  prompts?: string[];
+  nonce: string;
+  version?: string;
+  phase?: 'commit' | 'reveal'; // Commit-reveal mode
+  sealed?: SealedPrompt; // Time-locked: the encrypted prompt(s), opened by the released key
+  release?: { at: number };
+  key?: string; // Time-locked key packet ({challengeId, key} only)
+  verifier?: { id?: string; callback?: string };
+}
+
+// Time-locked challenges delivered ahead of their key, by challengeId
+const sealedChallenges = new Map<string, ChallengeBody>();
+
+type ChallengeAnswer = Awaited<ReturnType<typeof produceAnswer>>;
+
+// Commit-reveal: answers (with their salts) waiting for the reveal request
+const committed = new Map<string, ChallengeAnswer & { salt: Hex }>();
 
 // Simple response generator (simulates LLM)
-function generateResponse(prompt: string): string {
-  // Simple pattern matching for test prompts
+function generateResponse(prompt: string, nonce: string): string {
+  // Generated tasks are solved for real
+  const solved = solveTask(prompt, nonce);
+  if (solved !== undefined) return solved;
+  
+  // Simple pattern matching for fixed test prompts
   const responses: Record<string, string> = {
     'In exactly 3 words, describe the color blue.': 'Calm cool vast',
-    'Complete this sequence: 2, 4, 8, 16, __': '32',
+    'Complete this sequence: 2, 4, 8, 16, __. Reply with just the number.': '32',
     'What is 7 * 13? Reply with just the number.': '91',
     'Name one element from the periodic table.': 'Hydrogen',
     "What comes after 'Hello' in a greeting?": 'World',
@@ -21,6 +60,39 @@ function generateResponse(prompt: string): string {
     'Complete: The quick brown fox jumps over the lazy ___': 'dog',
     'What is 100 - 37?': '63',
     'Name a primary color.': 'Blue',
+    // Consistency prompt families (paraphrases asked over a temporal session)
+    'What year did World War 2 end?': '1945',
+    'In which year did the Second World War end? Reply with just the year.': '1945',
+    'What year did World War 2 end? Reply with just the year.': '1945',
+    'WW2 ended in what year? Reply with just the year.': '1945',
+    'Name the capital city of France in one word.': 'Paris',
+    'Which city is the capital of France? One word.': 'Paris',
+    'Multiply 7 by 13. Reply with just the number.': '91',
+    'What is thirteen times seven? Reply with just the number.': '91',
+    'Explain quantum computing in exactly 10 words.': 'Computers using qubits to solve certain problems much faster classically',
+    'Describe quantum computing using exactly 10 words.': 'Computers using qubits to solve certain problems much faster classically',
+    'In exactly 10 words, what is quantum computing?': 'Computers using qubits to solve certain problems much faster classically',
+    // Streaming prompts
+    'Count from 1 to 10.': '1, 2, 3, 4, 5, 6, 7, 8, 9, 10',
+    'List the days of the week.': 'Monday, Tuesday, Wednesday, Thursday, Friday, Saturday, Sunday',
+    'Name the first eight letters of the alphabet, separated by spaces.': 'A B C D E F G H',
+    'List the planets of the solar system in order from the Sun.': 'Mercury, Venus, Earth, Mars, Jupiter, Saturn, Uranus, Neptune',
+    'Name the four seasons of the year.': 'Spring, Summer, Autumn, Winter',
+    // Batch prompts
+    '2+2=?': '4',
+    'Capital of France?': 'Paris',
+    'Color of a clear daytime sky?': 'Blue',
+    'What is 9 * 9?': '81',
+    'Opposite of hot?': 'Cold',
+    'How many days are in a week?': '7',
+    'First letter of the English alphabet?': 'A',
+    'What is 15 + 27?': '42',
+    "Plural of 'mouse'?": 'Mice',
+    'Freezing point of water in Celsius?': '0',
+    'How many legs does a spider have?': '8',
+    "Reverse the word 'stop'.": 'pots',
+    'What is 12 / 4?': '3',
+    'What is 50 - 8?': '42',
   };
   
   // Check for exact match
@@ -44,57 +116,397 @@ async function simulateInference(): Promise<void> {
   await new Promise(r => setTimeout(r, delay));
 }
 
+/**
+ * Sign (challengeId, nonce, response, agentId) if a key is configured
+ */
+async function signResponse(challengeId: string, nonce: string, response: string): Promise<{ signature?: Hex; signatureType?: string }> {
+  if (!SIGNER) return {};
+  
+  const fields = { challengeId, nonce, response, agentId: AGENT_ID };
+  const signature = SIGNATURE_TYPE === 'eip712'
+    ? await SIGNER.signTypedData(svpTypedData(fields))
+    : await SIGNER.signMessage({ message: svpSigningMessage(fields) });
+  
+  return { signature, signatureType: SIGNATURE_TYPE };
+}
+
+// Simulate token-by-token generation with a steady decode rhythm
+async function simulateTokenDelay(): Promise<void> {
+  const delay = TOKEN_DELAY_MS * (0.8 + Math.random() * 0.4);
+  await new Promise(r => setTimeout(r, delay));
+}
+
+/**
+ * Emit a response as SVP stream frames: one `{"token", "time"}` frame per
+ * token, then a `{"done": true}` frame with the challengeId/nonce echo and the
+ * total processing time.
+ */
+async function streamTokens(
+  response: string,
+  challengeId: string,
+  nonce: string,
+  startTime: number,
+  emit: (frame: object) => void
+): Promise<void> {
+  const tokens = response.match(/\S+\s*/g) ?? [];
+  
+  for (const token of tokens) {
+    await simulateTokenDelay();
+    emit({ token, time: Date.now() - startTime });
+  }
+  
+  const processingTime = Date.now() - startTime;
+  const signed = await signResponse(challengeId, nonce, tokens.join(''));
+  emit({ done: true, challengeId, nonce, agentId: AGENT_ID, processingTime, ...signed });
+  
+  console.log(`[SVP] Challenge ${challengeId}: streamed ${tokens.length} tokens (${processingTime}ms)`);
+}
+
+/**
+ * Stream a response as SVP Server-Sent Events
+ */
+function streamResponse(response: string, challengeId: string, nonce: string, startTime: number): Response {
+  const encoder = new TextEncoder();
+  
+  const body = new ReadableStream({
+    async start(controller) {
+      await streamTokens(response, challengeId, nonce, startTime, frame => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(frame)}\n\n`));
+      });
+      controller.close();
+    },
+  });
+  
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * Answer a batch challenge: one inference pass, answers emitted one after another
+ */
+async function answerBatch(prompts: string[], nonce: string, startTime: number): Promise<{ index: number; response: string; time: number }[]> {
+  await simulateInference();
+  
+  const answers = [];
+  for (const [index, prompt] of prompts.entries()) {
+    await simulateTokenDelay();
+    answers.push({ index, response: generateResponse(prompt, nonce), time: Date.now() - startTime });
+  }
+  return answers;
+}
+
+/**
+ * Answer a text or batch challenge (the JSON body, sent directly or to the callback)
+ */
+async function produceAnswer(body: ChallengeBody, startTime: number) {
+  const { challengeId, prompt, prompts, nonce, version } = body;
+  
+  if (body.type === 'batch' && Array.isArray(prompts)) {
+    const answers = await answerBatch(prompts, nonce, startTime);
+    const processingTime = Date.now() - startTime;
+    
+    console.log(`[SVP] Challenge ${challengeId}: batch of ${prompts.length} (${processingTime}ms)`);
+    
+    const signed = await signResponse(challengeId, nonce, answers.map(a => a.response).join('\n'));
+    
+    return {
+      version: version || "0.1",
+      challengeId,
+      nonce,
+      answers,
+      agentId: AGENT_ID,
+      processingTime,
+      ...signed,
+    };
+  }
+  
+  // Simulate LLM inference
+  await simulateInference();
+  
+  // Generate response
+  const response = generateResponse(prompt!, nonce);
+  const processingTime = Date.now() - startTime;
+  
+  console.log(`[SVP] Challenge ${challengeId}: "${prompt!.slice(0, 30)}..." → "${response}" (${processingTime}ms)`);
+  
+  const signed = await signResponse(challengeId, nonce, response);
+  
+  return {
+    version: version || "0.1",
+    challengeId,
+    nonce,
+    response,
+    agentId: AGENT_ID,
+    processingTime,
+    ...signed,
+  };
+}
+
+/**
+ * Commit-reveal, first phase: keep the answer, return only a commitment to it
+ * (a batch commits to its answers joined with newlines)
+ */
+function commitAnswer(answer: ChallengeAnswer) {
+  const text = 'answers' in answer ? answer.answers.map(a => a.response).join('\n') : answer.response;
+  const { salt, commitHash } = prepareCommit(text);
+  committed.set(`${answer.challengeId}:${answer.nonce}`, { ...answer, salt });
+  
+  return {
+    version: answer.version,
+    challengeId: answer.challengeId,
+    nonce: answer.nonce,
+    commitment: commitHash,
+    agentId: AGENT_ID,
+    processingTime: answer.processingTime,
+  };
+}
+
+/**
+ * Commit-reveal, second phase: the committed answer and its salt
+ */
+function revealAnswer(body: ChallengeBody) {
+  const key = `${body.challengeId}:${body.nonce}`;
+  const answer = committed.get(key);
+  if (!answer) throw new Error(`Nothing committed for ${key}`);
+  committed.delete(key);
+  
+  console.log(`[SVP] Challenge ${body.challengeId}: revealed`);
+  return answer;
+}
+
+/**
+ * Answer a challenge in the phase it asks for: the answer itself, or in
+ * commit-reveal mode a commitment first and the answer on the reveal request
+ */
+async function answerChallenge(body: ChallengeBody, startTime: number) {
+  if (body.phase === 'reveal') return revealAnswer(body);
+  
+  const answer = await produceAnswer(body, startTime);
+  return body.phase === 'commit' ? commitAnswer(answer) : answer;
+}
+
+/**
+ * Time-locked release. A sealed challenge is held and acknowledged right
+ * away; the key packet turns it back into the full challenge, answered as
+ * usual. Anything else passes through.
+ */
+function receiveTimeLocked(body: ChallengeBody): { ack?: object; challenge?: ChallengeBody } {
+  if (body.sealed) {
+    sealedChallenges.set(body.challengeId, body);
+    console.log(`[SVP] Challenge ${body.challengeId}: sealed, key due in ${(body.release?.at ?? Date.now()) - Date.now()}ms`);
+    return { ack: { status: 'sealed', challengeId: body.challengeId, nonce: body.nonce } };
+  }
+  
+  if (body.key) {
+    const held = sealedChallenges.get(body.challengeId);
+    if (!held?.sealed) throw new Error(`No sealed challenge ${body.challengeId}`);
+    sealedChallenges.delete(body.challengeId);
+    return { challenge: { ...held, ...openSealed(held.sealed, body.key), sealed: undefined } };
+  }
+  
+  return { challenge: body };
+}
+
+type JsonRpcRequest = {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: {
+    message?: { parts?: { kind?: string; data?: unknown }[] }; // A2A message/send
+    protocolVersion?: string;                                  // MCP initialize
+    name?: string;                                             // MCP tools/call
+    arguments?: unknown;
+  };
+};
+
+function jsonRpcReply(id: string | number | undefined, reply: { result: unknown } | { error: { code: number; message: string } }, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ jsonrpc: '2.0', id, ...reply }), {
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * A2A JSON-RPC: `message/send` with the challenge as a data part
+ */
+async function handleA2a(rpc: JsonRpcRequest): Promise<Response> {
+  if (rpc.method !== 'message/send') {
+    return jsonRpcReply(rpc.id, { error: { code: -32601, message: `Method not found: ${rpc.method}` } });
+  }
+  
+  const parts = rpc.params?.message?.parts ?? [];
+  const data = parts.find(p => p.kind === 'data')?.data as ChallengeBody | undefined;
+  const lock = data?.challengeId ? receiveTimeLocked(data) : {};
+  const challenge = lock.challenge;
+  if (!lock.ack && (!challenge?.challengeId || !challenge.nonce)) {
+    return jsonRpcReply(rpc.id, { error: { code: -32602, message: 'Expected an SVP challenge data part' } });
+  }
+  
+  // A2A replies are one message, so streams are answered as plain JSON
+  const answer = lock.ack
+    ?? await answerChallenge({ ...challenge!, type: challenge!.type === 'stream' ? 'text' : challenge!.type }, Date.now());
+  return jsonRpcReply(rpc.id, {
+    result: { kind: 'message', role: 'agent', messageId: crypto.randomUUID(), parts: [{ kind: 'data', data: answer }] },
+  });
+}
+
+/**
+ * MCP (streamable HTTP, stateless): an `svp_challenge` tool taking the challenge as arguments
+ */
+async function handleMcp(rpc: JsonRpcRequest): Promise<Response> {
+  switch (rpc.method) {
+    case 'initialize':
+      return jsonRpcReply(rpc.id, {
+        result: {
+          protocolVersion: rpc.params?.protocolVersion ?? '2025-06-18',
+          capabilities: { tools: {} },
+          serverInfo: { name: `svp-responder-${AGENT_ID}`, version: '0.1.0' },
+        },
+      }, { 'Mcp-Session-Id': crypto.randomUUID() });
+    case 'notifications/initialized':
+      return new Response(null, { status: 202 });
+    case 'tools/list':
+      return jsonRpcReply(rpc.id, {
+        result: { tools: [{ name: 'svp_challenge', description: 'Answer an SVP challenge', inputSchema: { type: 'object' } }] },
+      });
+    case 'tools/call': {
+      const args = rpc.params?.arguments as ChallengeBody | undefined;
+      const lock = rpc.params?.name === 'svp_challenge' && args?.challengeId ? receiveTimeLocked(args) : {};
+      const challenge = lock.challenge;
+      if (!lock.ack && (!challenge?.challengeId || !challenge.nonce)) {
+        return jsonRpcReply(rpc.id, { result: { isError: true, content: [{ type: 'text', text: 'Unknown tool or bad challenge' }] } });
+      }
+      const answer = lock.ack
+        ?? await answerChallenge({ ...challenge!, type: challenge!.type === 'stream' ? 'text' : challenge!.type }, Date.now());
+      return jsonRpcReply(rpc.id, {
+        result: { content: [{ type: 'text', text: JSON.stringify(answer) }], structuredContent: answer },
+      });
+    }
+    default:
+      return jsonRpcReply(rpc.id, { error: { code: -32601, message: `Method not found: ${rpc.method}` } });
+  }
+}
+
 const server = Bun.serve({
   port: PORT,
-  async fetch(req) {
+  websocket: {
+    // SVP over a WebSocket: one challenge message, answered with JSON or stream frames
+    async message(ws, message) {
+      const startTime = Date.now();
+      const lock = receiveTimeLocked(JSON.parse(String(message)) as ChallengeBody);
+      if (lock.ack) {
+        ws.send(JSON.stringify(lock.ack));
+        return;
+      }
+      const challenge = lock.challenge!;
+      
+      if (challenge.type === 'stream') {
+        await simulateInference();
+        await streamTokens(generateResponse(challenge.prompt ?? '', challenge.nonce), challenge.challengeId, challenge.nonce, startTime, frame => {
+          ws.send(JSON.stringify(frame));
+        });
+        return;
+      }
+      ws.send(JSON.stringify(await answerChallenge(challenge, startTime)));
+    },
+  },
+  async fetch(req, server) {
     const url = new URL(req.url);
     
+    if (url.pathname === '/ws' && server.upgrade(req)) {
+      return;
+    }
+    
+    if (url.pathname === '/a2a' && req.method === 'POST') {
+      return handleA2a(await req.json() as JsonRpcRequest);
+    }
+    
+    if (url.pathname === '/mcp' && req.method === 'POST') {
+      return handleMcp(await req.json() as JsonRpcRequest);
+    }
+    
     // Health check
     if (url.pathname === '/health' || url.pathname === '/') {
       return new Response(JSON.stringify({
         status: 'ok',
         service: 'SVP Responder',
         agentId: AGENT_ID,
-        endpoint: '/.well-known/svp-challenge',
+        endpoint: SVP_PATH,
+      }), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+    
+    // A2A-style agent card advertising the SVP endpoint
+    if (url.pathname === '/.well-known/agent.json') {
+      return new Response(JSON.stringify({
+        name: AGENT_ID,
+        description: 'SVP test responder',
+        url: url.origin,
+        svp: {
+          endpoint: SVP_PATH,
+          version: '0.1',
+          challengeTypes: ['text', 'stream', 'batch', 'distributed'],
+        },
       }), {
         headers: { 'Content-Type': 'application/json' },
       });
     }
     
     // SVP Challenge endpoint
-    if (url.pathname === '/.well-known/svp-challenge' && req.method === 'POST') {
+    if (url.pathname === SVP_PATH && req.method === 'POST') {
       const startTime = Date.now();
       
       try {
-        const body = await req.json() as { challengeId?: string; prompt?: string; nonce?: string; version?: string };
-        const { challengeId, prompt, nonce, version } = body;
+        const lock = receiveTimeLocked(await req.json() as ChallengeBody);
+        if (lock.ack) {
+          return new Response(JSON.stringify(lock.ack), { headers: { 'Content-Type': 'application/json' } });
+        }
+        const body = lock.challenge as Partial<ChallengeBody>;
+        const { challengeId, type, prompt, prompts, nonce } = body;
         
-        if (!challengeId || !prompt || !nonce) {
+        const reveal = body.phase === 'reveal';
+        
+        if (!challengeId || !(prompt || prompts || reveal) || !nonce) {
           return new Response(JSON.stringify({ 
-            error: 'Missing required fields: challengeId, prompt, nonce' 
+            error: 'Missing required fields: challengeId, prompt (or prompts), nonce' 
           }), { status: 400 });
         }
         
-        // Simulate LLM inference
-        await simulateInference();
+        if (!prompt && !reveal && !(type === 'batch' && Array.isArray(prompts))) {
+          return new Response(JSON.stringify({ error: 'Missing required field: prompt' }), { status: 400 });
+        }
         
-        // Generate response
-        const response = generateResponse(prompt);
-        const processingTime = Date.now() - startTime;
+        if (type === 'stream') {
+          await simulateInference();
+          return streamResponse(generateResponse(prompt!, nonce), challengeId, nonce, startTime);
+        }
         
-        console.log(`[SVP] Challenge ${challengeId}: "${prompt.slice(0, 30)}..." → "${response}" (${processingTime}ms)`);
+        const callback = DELIVERY === 'callback' ? body.verifier?.callback : undefined;
+        if (callback) {
+          answerChallenge(body as ChallengeBody, startTime)
+            .then(answer => fetch(callback, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(answer),
+            }))
+            .then(res => console.log(`[SVP] Callback for ${challengeId}: HTTP ${res.status}`))
+            .catch(error => console.error('[SVP] Callback failed:', error));
+          
+          return new Response(JSON.stringify({ status: 'accepted', challengeId, nonce }), {
+            status: 202,
+            headers: { 'Content-Type': 'application/json' },
+          });
+        }
         
-        return new Response(JSON.stringify({
-          version: version || "0.1",
-          challengeId,
-          nonce,
-          response,
-          agentId: AGENT_ID,
-          processingTime,
-        }), {
+        const answer = await answerChallenge(body as ChallengeBody, startTime);
+        return new Response(JSON.stringify(answer), {
           headers: {
             'Content-Type': 'application/json',
-            'X-SVP-Response-Time': String(processingTime),
+            'X-SVP-Response-Time': String(answer.processingTime),
           },
         });
         
@@ -111,12 +523,19 @@ const server = Bun.serve({
 });
 
 console.log(`🤖 SVP Responder (Agent: ${AGENT_ID})`);
+if (SIGNER) console.log(`Signing responses as ${SIGNER.address} (${SIGNATURE_TYPE})`);
 console.log(`================================`);
 console.log(`Listening on http://localhost:${PORT}`);
 console.log(`\nEndpoints:`);
 console.log(`  GET  /health                     - Health check`);
-console.log(`  POST /.well-known/svp-challenge  - SVP challenge endpoint`);
+console.log(`  GET  /.well-known/agent.json     - Agent card`);
+console.log(`  POST ${SVP_PATH.padEnd(28)} - SVP challenge endpoint`);
+console.log(`  POST /a2a                        - A2A JSON-RPC (message/send)`);
+console.log(`  POST /mcp                        - MCP server (svp_challenge tool)`);
+console.log(`  WS   /ws                         - SVP over WebSocket`);
 console.log(`\nTest with:`);
-console.log(`  curl -X POST http://localhost:${PORT}/.well-known/svp-challenge \\`);
+console.log(`  curl -X POST http://localhost:${PORT}${SVP_PATH} \\`);
 console.log(`    -H "Content-Type: application/json" \\`);
 console.log(`    -d '{"challengeId":"test","prompt":"What is 2+2?","nonce":"abc"}'`);
+console.log(`\nStreaming (SSE, ${TOKEN_DELAY_MS}ms/token): add "type":"stream" to the request body`);
+if (DELIVERY === 'callback') console.log(`Callback delivery: answers 202, then POSTs to verifier.callback`);
@@ -7,27 +7,366 @@ export interface Agent {
   name: string;
   endpoint: string; // A2A or HTTP endpoint
   tokenId?: string; // ERC-8004 token ID if registered
+  transport?: TransportKind; // How to reach it (default 'http': the SVP route)
+  mcpTool?: string; // MCP transport: tool that takes the challenge (default 'svp_challenge')
+}
+
+/**
+ * How a challenge reaches an agent:
+ * - http: POST to the SVP route (PROTOCOL.md)
+ * - a2a: A2A JSON-RPC `message/send` to the agent's A2A URL
+ * - websocket: SVP messages over a ws:// or wss:// channel
+ * - mcp: `tools/call` on an MCP server (streamable HTTP)
+ */
+export type TransportKind = 'http' | 'a2a' | 'websocket' | 'mcp';
+
+/** SVP wire-level challenge type (see PROTOCOL.md "Challenge Types") */
+export type SvpChallengeType = 'text' | 'stream' | 'batch';
+
+/** What an agent card may list in `challengeTypes`: wire types, plus 'distributed' segments */
+export type AdvertisedChallengeType = SvpChallengeType | 'distributed';
+
+/** SVP endpoint resolved for an agent (see PROTOCOL.md "Discovery") */
+export interface ResolvedEndpoint {
+  url: string;
+  source: 'agent_card' | 'probe' | 'default'; // Advertised in the agent card, found by probing, or the spec default path
+  version?: string;                 // SVP version the agent advertises
+  challengeTypes?: AdvertisedChallengeType[]; // Undefined = not advertised
+  transport?: TransportKind;        // Default 'http'
+  tool?: string;                    // MCP tool name
+  resolvedAt: number;
 }
 
 export interface Challenge {
   id: string;
   type: 'parallel' | 'distributed' | 'consistency';
+  svpType?: SvpChallengeType; // Defaults to 'text'
   prompt: string;
+  prompts?: string[]; // Batch challenges only
+  expectedAnswers?: string[]; // Answer key for `prompts`; verifier-side, never sent
+  template?: string; // Procedural task template that produced `prompt`
+  family?: string; // Temporal consistency: paraphrases of one question share a family
+  validator?: ValidatorId; // How to check the answer to `prompt`
+  expectedAnswer?: string; // Verifier-side, never sent
+  validators?: ValidatorId[]; // Per entry of `prompts` (with `expectedAnswers`)
+  segments?: ChallengeSegment[]; // Distributed challenges: a different piece per agent
+  combine?: SegmentCombine; // How segment answers reassemble into `expectedAnswer`
+  releaseKey?: string; // Time-locked challenges: decrypts the sealed prompt; sent only at release
   createdAt: number;
   expiresAt: number;
   targetAgents: string[]; // Agent IDs
 }
 
+/**
+ * How an answer is checked against the expected value
+ * (see src/services/tasks.ts)
+ */
+export type ValidatorId =
+  | 'exact'           // Same text, ignoring case, whitespace and trailing punctuation
+  | 'numeric'         // Any number in the answer within tolerance ("32", "3.14±0.01")
+  | 'word_count'      // Number of words ("3", or a range "8-12")
+  | 'regex'           // Matches the expected pattern (case-insensitive)
+  | 'list'            // Same items in the same order (comma or whitespace separated)
+  | 'json'            // First JSON value in the answer deep-equals the expected JSON
+  | 'nonce_transform'; // Expected value names a transform of the agent's own nonce (prompt embeds it)
+
+/** One agent's answers checked against the challenge's answer key */
+export interface CorrectnessResult {
+  agentId: string;
+  checked: number;  // Answers with an answer key (1, or the batch prompts with one)
+  correct: number;
+  accuracy: number; // correct / checked
+  fresh?: number;   // Correct nonce-bound answers: provably produced after the agent's nonce was issued
+}
+
+/** One agent's piece of a distributed challenge (verifier-side key included) */
+export interface ChallengeSegment {
+  agentId: string;
+  index: number; // Position in the reassembled answer
+  prompt: string;
+  validator: ValidatorId;
+  expected: string;
+}
+
+/** How segment answers reassemble: summed as numbers, or concatenated in order */
+export type SegmentCombine = 'sum' | 'concat';
+
+/** Why a challenge got no usable response */
+export type FailureKind =
+  | 'dns'                // Hostname didn't resolve
+  | 'connection_refused' // Nothing listening
+  | 'tls'                // Handshake or certificate error
+  | 'timeout'            // No complete answer within the challenge timeout
+  | 'http_status'        // Non-2xx status
+  | 'rpc_error'          // JSON-RPC / A2A / MCP error reply
+  | 'malformed_body'     // Not JSON / not valid SSE frames
+  | 'oversize'           // Body over the size limit
+  | 'nonce_mismatch'     // Bad challengeId/nonce echo (see echoFailure)
+  | 'bad_reveal'         // Commit-reveal: revealed answer doesn't open the commitment
+  | 'not_challenged'     // No endpoint, or challenge type not supported
+  | 'network';           // Any other transport error (reset, etc.)
+
+export interface ChallengeFailure {
+  kind: FailureKind;
+  detail: string; // Raw error detail
+  status?: number; // http_status only
+}
+
+/** Why a response failed echo verification */
+export type EchoFailure =
+  | 'challenge_mismatch' // Wrong or missing challengeId
+  | 'nonce_mismatch'     // Wrong or missing nonce
+  | 'nonce_replay';      // Echoed a nonce issued for another agent or challenge
+
+export type SignatureScheme = 'eip191' | 'eip712';
+
+/** Result of checking an agent's response signature */
+export interface SignatureCheck {
+  scheme: SignatureScheme;
+  signer?: string;         // Recovered signer address
+  expectedSigner?: string; // Wallet registered for the agent's ERC-8004 token
+  valid: boolean;          // Recovered, and matches expectedSigner if there is one
+  identityBound: boolean;  // Valid and matches the ERC-8004 registry
+  error?: string;
+}
+
 export interface ChallengeResponse {
   challengeId: string;
   agentId: string;
+  nonce?: string; // Nonce issued to this agent
+  endpoint?: string; // Resolved SVP endpoint the challenge was sent to
   response: string;
   receivedAt: number; // Unix timestamp ms
-  latencyMs: number;
+  latencyMs: number; // Request start → body complete (= timing.totalMs, rounded)
+  timing?: ResponseTiming; // Missing for simulated responses
   selfReportedMs?: number; // Agent's self-reported processing time
+  timeline?: TokenTimeline; // Only for streamed responses
+  answers?: BatchAnswer[]; // Only for batch challenges
+  delivery?: DeliveryMode; // How the answer came back (timing runs to callback arrival)
+  commit?: CommitReveal; // Commit-reveal mode only (timing is the commit's)
+  releaseAt?: number; // Time-locked challenges: when the key went out (unix ms); timing starts there
+  echoFailure?: EchoFailure; // Set when the response was rejected for a bad echo
+  failure?: ChallengeFailure; // Set whenever `error` is (classified)
+  signature?: SignatureCheck; // Only when the agent signed its response
+  error?: string;
+}
+
+/** An agent's commitment and its reveal, in commit-reveal mode */
+export interface CommitReveal {
+  commitment: string; // keccak256(keccak256(answer), salt), returned within the commit deadline
+  salt?: string;      // From the reveal
+  revealMs?: number;  // Reveal request → reveal received
+  verified: boolean;  // The revealed answer and salt open the commitment
+}
+
+/** 'callback': the agent acknowledged with 202 and POSTed its answer to verifier.callback */
+export type DeliveryMode = 'sync' | 'callback';
+
+export interface BatchAnswer {
+  index: number; // Position in Challenge.prompts
+  response: string;
+  agentTimeMs?: number; // Agent's self-reported ms since the challenge was received
+}
+
+/** Per-response timing breakdown (monotonic clock, ms) */
+export interface ResponseTiming {
+  dnsMs: number;        // DNS lookup (0 on a reused connection or IP literal)
+  connectMs: number;    // TCP connect (0 on a reused connection)
+  tlsMs: number;        // TLS handshake (0 for plain HTTP or a reused connection)
+  ttfbMs: number;       // Connection ready → response headers (agent + one network RTT)
+  bodyMs: number;       // Response headers → body complete (streaming, transfer)
+  processingMs: number; // Verifier-side parsing and checks after the body arrived
+  totalMs: number;      // Request start → body complete
+  reusedConnection: boolean;
+}
+
+/** Which part of a response's timing a scorer looks at */
+export type TimingComponent =
+  | 'total'    // Everything up to the last byte, including connection setup
+  | 'response' // ttfb + body: the agent's answer without connection setup (default)
+  | 'ttfb'     // Time to first byte only
+  | 'adjusted' // response minus the agent's calibrated network RTT (default)
+  | 'latency'; // Legacy latencyMs
+
+/** Baseline network round-trip to one agent, measured before dispatch */
+export interface NetworkCalibration {
+  agentId: string;
+  endpoint: string;
+  probesMs: number[];   // TTFB of each trivial probe
+  rttMs?: number;       // Baseline RTT (fastest probe); undefined if every probe failed
+  connectMs?: number;   // DNS + TCP + TLS of the connection the probes opened
+  warmed: boolean;      // A keep-alive connection is open for the challenge
+  networkShare?: number; // Filled in by the analyzer: rttMs / response latency (0-1)
   error?: string;
 }
 
+export interface TokenTiming {
+  token: string;
+  arrivedMs: number; // Verifier clock, ms since the connection was ready and the request sent
+  agentTimeMs?: number; // Agent's self-reported `time` field
+}
+
+export interface TokenTimeline {
+  tokens: TokenTiming[];
+  timeToFirstTokenMs: number;
+  interTokenMs: number[]; // Gaps between consecutive tokens (length = tokens - 1)
+}
+
+export type RhythmFlag = 'human_typing' | 'copy_paste_relay';
+
+/** Inter-token time features of one streamed response */
+export interface IttFingerprint {
+  agentId: string;
+  tokenCount: number;
+  meanMs: number;
+  jitterMs: number;        // Std dev of ITT
+  cv: number;              // jitterMs / meanMs
+  burstiness: number;      // (σ - μ) / (σ + μ): -1 periodic, 0 random, 1 bursty
+  autocorrelation: number; // Lag-1 autocorrelation of ITT
+  flags: RhythmFlag[];
+}
+
+/** Per-agent result of a batch challenge */
+export interface BatchResult {
+  agentId: string;
+  answers: {
+    index: number;
+    latencyMs?: number; // Time spent on this answer (from agent-reported times)
+    correct?: boolean;  // Undefined when there is no answer key for the prompt
+  }[];
+  answeredCount: number;
+  msPerAnswer: number; // Measured round-trip latency / prompts
+  accuracy?: number;   // 0-1 over prompts with an answer key
+}
+
+/** Latency distribution summary */
+export interface LatencyStats {
+  samples: number;
+  meanMs: number;
+  medianMs: number;
+  p90Ms: number;
+  p99Ms: number;
+  stdDevMs: number;
+  cv: number;
+}
+
+/** One round of a multi-round verification session, with its raw data */
+export interface SessionRound {
+  round: number; // 1-based
+  challenge: Challenge;
+  responses: ChallengeResponse[];
+  startedAt: number;
+  scores?: SwarmVerification['scores']; // This round on its own
+  overallScore?: number;
+}
+
+/** One agent's own answers and latencies over a temporal consistency session */
+export interface TemporalDrift {
+  agentId: string;
+  samples: number;          // Answered rounds
+  answerStability: number;  // 0-1, mean similarity of the agent's answers to each other
+  latencyDrift: number;     // Std dev of log latency (≈ CV) over the session
+  break?: {                 // Change point in the agent's history (operator or backend swap)
+    round: number;          // First round after the change
+    latencyRatio: number;   // Median latency after / before
+    answerShift: number;    // 0-1, how much less alike answers are across the change than within
+  };
+  score: number;            // 0-100
+}
+
+/** Why one agent looks off against the rest of its swarm */
+export type AgentFlagKind =
+  | 'no_answer'           // Failed or missing responses
+  | 'latency_outlier'     // Much slower than the swarm median
+  | 'divergent_answer'    // Answers unlike the rest of the swarm's
+  | 'wrong_answer'        // Fails the answer key
+  | 'shared_wrong_answer' // Same wrong answer as other agents
+  | 'echo_failure'        // Replayed or mismatched challengeId/nonce
+  | 'bad_reveal'          // Reveal didn't open its commitment
+  | 'human_rhythm'        // Typing-like token rhythm
+  | 'relay_rhythm'        // Copy-paste relay token rhythm
+  | 'shared_key'          // Signing key shared with other identities
+  | 'minority_cluster'    // Outside the swarm's main latency/content cluster
+  | 'history_break';      // Latency or answers changed partway through a session
+
+export interface AgentFlag {
+  kind: AgentFlagKind;
+  detail: string;  // e.g. "latency 4.2σ above swarm median"
+  penalty: number; // Points taken off the agent's score
+}
+
+/** One agent's share of a verification */
+export interface AgentScore {
+  agentId: string;
+  score: number;            // 0-100, 100 minus flag penalties
+  answered: number;
+  samples: number;          // Responses expected from this agent
+  medianLatencyMs?: number;
+  latencySigma?: number;    // Robust σ from the swarm median (+ = slower)
+  similarity?: number;      // Mean answer similarity to the rest of the swarm, 0-1
+  flags: AgentFlag[];
+  likelyHuman: boolean;     // Low score with human-operator signs
+}
+
+/** Agents grouped by how alike their latency and answers are */
+export interface AgentCluster {
+  agentIds: string[];
+  cohesion: number;         // Mean pairwise similarity within the cluster, 0-1
+  medianLatencyMs: number;
+}
+
+/**
+ * A verification's outcome. 'insufficient_data' when the evidence can't
+ * support a decision (too few answering agents, or a score interval that
+ * spans every verdict)
+ */
+export type Verdict = 'genuine' | 'suspicious' | 'likely_fake' | 'insufficient_data';
+
+/** Bootstrap confidence interval of a score */
+export interface ScoreInterval {
+  low: number;
+  high: number;
+}
+
+/** Overall-score cutoffs: genuine at or above `genuine`, likely fake below `likelyFake` */
+export interface VerdictThresholds {
+  genuine: number;
+  likelyFake: number;
+}
+
+/** How a verification was scored (see services/scoring.ts) */
+export interface ScoringRecord {
+  profile: string;
+  weights: Record<string, number>;  // Enabled scorers and their weights
+  thresholds: VerdictThresholds;
+  versions: Record<string, string>; // Scorer name → version, for every enabled scorer
+}
+
+/** Why a verdict was escalated to another stage */
+export type EscalationReason =
+  | 'sparse_evidence'  // Too few answers to judge
+  | 'low_confidence'   // The verdict doesn't hold across bootstrap resamples
+  | 'suspicious_band'  // Score between the likely-fake and genuine thresholds
+  | 'near_threshold';  // Score within a few points of a threshold
+
+/** One stage of an escalated verification */
+export interface EscalationStage {
+  stage: number;             // 0 = the requested verification
+  challenge: string;         // What was asked, e.g. 'parallel/batch'
+  reason?: {                 // Why this stage ran (stages after 0)
+    kind: EscalationReason;
+    detail: string;
+  };
+  verificationId: string;
+  samples: number;           // Expected responses (the stage's weight in the combined score)
+  answered: number;
+  scores: SwarmVerification['scores'];
+  overallScore: number;
+  interval?: ScoreInterval;  // Bootstrap interval of overallScore
+  verdict: Verdict;
+  confidence?: number;       // Share of bootstrap resamples that agree with the stage's score verdict, 0-1
+}
+
 export interface SwarmVerification {
   id: string;
   challengeId: string;
@@ -41,10 +380,85 @@ export interface SwarmVerification {
     tailBehavior: number;    // Tight distribution = higher (no outliers/stragglers)
     consistency: number;     // Similar responses = higher (same model)
     participation: number;   // % responded = higher
+    tokenRhythm?: number;    // Alike ITT fingerprints = higher (streamed responses only)
+    batch?: number;          // Fast, correct answers per prompt = higher (batch challenges only)
+    correctness?: number;    // Answers that pass the answer key = higher (keyed challenges only)
+    temporal?: number;       // Each agent stable over time = higher (consistency sessions only)
+    clusters?: number;       // Agents in one latency/content cluster = higher (3+ answering agents)
+    content: number;         // Relevant, well-formed, signed answers = higher (PROTOCOL.md)
+  };
+  customScores?: Record<string, number>; // Registered custom scorers (0-100)
+  scorerErrors?: Record<string, string>; // Custom scorers that threw, with the error
+  agentScores?: AgentScore[]; // Per-agent breakdown: who dragged the swarm down, and why
+  clusters?: {               // Cross-agent correlation (3+ answering agents)
+    agentIds: string[];      // Matrix order
+    similarity: number[][];  // Pairwise latency/content similarity, 0-1
+    clusters: AgentCluster[]; // Largest first
+    backends: number;        // Distinct clusters: the swarm's likely backends or operators
+  };
+  scoring?: ScoringRecord;
+  
+  timingComponents?: Record<'responseTime' | 'timeVariance' | 'tailBehavior', TimingComponent>;
+  calibration?: NetworkCalibration[]; // Per-agent baseline RTT
+  
+  rhythm?: IttFingerprint[]; // Per-agent ITT fingerprints (streamed responses only)
+  batch?: BatchResult[];     // Per-agent, per-answer results (batch challenges only)
+  distributed?: {            // Reassembled answer (distributed challenges only)
+    segments: number;
+    answered: number;
+    correctSegments: number;
+    answer?: string;         // Undefined until every segment is answered
+    expected: string;
+    correct: boolean;
+  };
+  correctness?: {            // Answers checked against the answer key (keyed challenges only)
+    agents: CorrectnessResult[];
+    accuracy: number;        // Mean per-agent accuracy, 0-1
+    sharedWrong: { answer: string; agentIds: string[] }[]; // Same wrong answer from several agents
+  };
+  identity?: {               // Response signatures
+    signed: number;
+    identityBound: number;
+    sharedKeys: { signer: string; agentIds: string[] }[]; // Distinct agents, same key
+  };
+  session?: {                // Multi-round sessions only
+    rounds: SessionRound[];
+    windowMs?: number;       // Consistency sessions: rounds were spread over this window
+    temporal?: TemporalDrift[]; // Consistency sessions: per-agent drift
+    agentStats: (LatencyStats & { agentId: string; responded: number })[];
+    swarmStats: LatencyStats;
+  };
+  failures?: Partial<Record<FailureKind, number>>; // Failed responses by class
+  commitReveal?: {           // Commit-reveal mode only
+    committed: number;
+    revealed: number;        // Reveals that opened their commitment
+    badReveals: number;
+  };
+  integrity?: {              // Echo verification failures (strong fake signal)
+    replays: number;
+    mismatches: number;
+    multiplier: number;      // Applied to the weighted score
+  };
+  escalation?: {             // Borderline verdicts re-checked with harder challenges
+    budget: number;          // Extra stages allowed
+    stages: EscalationStage[];
+    initialScore: number;    // Stage 0 on its own; overallScore combines every stage
+  };
+  
+  intervals?: {              // Bootstrap confidence intervals (agents resampled)
+    level: number;           // e.g. 0.95
+    samples: number;
+    scores: Record<string, ScoreInterval>; // Built-in and custom scores that applied
+    overall: ScoreInterval;
+  };
+  confidence?: {
+    level: 'high' | 'medium' | 'low';
+    agreement: number;       // Share of resamples that reach the same verdict, 0-1
+    insufficient?: string;   // Why the verdict is 'insufficient_data'
   };
   
   overallScore: number;
-  verdict: 'genuine' | 'suspicious' | 'likely_fake';
+  verdict: Verdict;
   
   attestationId?: string; // EAS attestation UID
   createdAt: number;
@@ -53,12 +467,24 @@ export interface SwarmVerification {
 export interface ChallengeRequest {
   agents: Agent[];
   challengeType?: 'parallel' | 'distributed' | 'consistency';
+  svpType?: SvpChallengeType;
+  batchSize?: number; // Batch challenges only
+  nonceBound?: boolean; // Parallel challenges: answers derived from each agent's nonce
   timeoutMs?: number;
+  rounds?: number;         // Multi-round session (default 1)
+  roundSpacingMs?: number; // Pause between rounds (randomized ±50%)
+  windowMs?: number;       // Consistency sessions: spread rounds at random over this window
+  delivery?: DeliveryMode; // 'callback' offers agents async delivery (not for streams)
+  timeLocked?: boolean;    // Deliver the prompt sealed ahead of time; release its key at one instant
+  commitReveal?: boolean;  // Agents commit to a hash of their answer first, and reveal it once every commit is in
+  escalationBudget?: number; // Extra stages for borderline verdicts (default 2, 0 = off)
+  profile?: string;          // Scoring profile (default 'default')
+  scorers?: Record<string, boolean>; // Turn individual scorers on or off for this request
 }
 
 export interface VerificationResult {
   verificationId: string;
   overallScore: number;
-  verdict: 'genuine' | 'suspicious' | 'likely_fake';
+  verdict: Verdict;
   details: SwarmVerification;
 }